@@ -0,0 +1,109 @@
+import { WalletError } from './errors';
+
+/**
+ * Details of a payment that needs a human decision before it is sent.
+ */
+export interface PaymentApprovalRequest {
+  kind: 'pay' | 'zap' | 'send_token';
+  amount: number;
+  destination: string;
+  feeEstimate?: number;
+  description?: string;
+  reason: string;
+}
+
+export type ApprovalDecision = 'approved' | 'declined' | 'pending';
+
+export type ApprovalHandler = (request: PaymentApprovalRequest) => Promise<ApprovalDecision>;
+
+export interface PendingPayment {
+  paymentId: string;
+  request: PaymentApprovalRequest;
+  createdAt: number;
+}
+
+export class ApprovalPendingError extends Error {
+  readonly pending: PendingPayment;
+
+  constructor(pending: PendingPayment) {
+    super(`Payment ${pending.paymentId} is pending approval`);
+    this.name = 'ApprovalPendingError';
+    this.pending = pending;
+  }
+}
+
+export class PaymentDeclinedError extends Error {
+  readonly request: PaymentApprovalRequest;
+
+  constructor(request: PaymentApprovalRequest) {
+    super(`Payment of ${request.amount} sats to ${request.destination} was declined`);
+    this.name = 'PaymentDeclinedError';
+    this.request = request;
+  }
+}
+
+const KIND_LABELS: Record<PaymentApprovalRequest['kind'], string> = {
+  pay: 'payment',
+  zap: 'zap',
+  send_token: 'Cashu token',
+};
+
+export function describeApprovalRequest(request: PaymentApprovalRequest): string {
+  const lines = [
+    `Approve ${KIND_LABELS[request.kind]} of ${request.amount} sats?`,
+    `Destination: ${request.destination}`,
+    `Fee estimate: ${request.feeEstimate !== undefined ? `${request.feeEstimate} sats` : 'unknown until payment'}`,
+  ];
+  if (request.description) lines.push(`Description: ${request.description}`);
+  lines.push(`Reason: ${request.reason}`);
+  return lines.join('\n');
+}
+
+// Held payments are dropped after an hour; most invoices expire by then anyway
+const PENDING_TTL = 60 * 60 * 1000;
+
+/**
+ * Holds payments that are waiting for approval through the
+ * `approve_payment` tool, along with the callback that sends them.
+ */
+export class ApprovalQueue {
+  private pending = new Map<string, PendingPayment & { execute: () => Promise<any> }>();
+
+  add(request: PaymentApprovalRequest, execute: () => Promise<any>): PendingPayment {
+    this.prune();
+
+    const paymentId = `payment_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const pending = { paymentId, request, createdAt: Date.now() };
+    this.pending.set(paymentId, { ...pending, execute });
+    return pending;
+  }
+
+  list(): PendingPayment[] {
+    this.prune();
+    return Array.from(this.pending.values()).map(({ paymentId, request, createdAt }) => ({ paymentId, request, createdAt }));
+  }
+
+  async release(paymentId: string): Promise<any> {
+    this.prune();
+
+    const entry = this.pending.get(paymentId);
+    if (!entry) {
+      throw new WalletError('NOT_FOUND', `No pending payment with id ${paymentId}`);
+    }
+    this.pending.delete(paymentId);
+    return entry.execute();
+  }
+
+  discard(paymentId: string): boolean {
+    return this.pending.delete(paymentId);
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const [id, entry] of this.pending) {
+      if (now - entry.createdAt > PENDING_TTL) {
+        this.pending.delete(id);
+      }
+    }
+  }
+}
@@ -0,0 +1,154 @@
+import { Proof } from '@cashu/cashu-ts';
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import { PassphraseError } from './keystore';
+
+/**
+ * Everything needed to bring the wallet back on another machine, as
+ * written (encrypted) by export_backup.
+ */
+export interface WalletBackup {
+  version: 1;
+  createdAt: number;
+  npub: string;
+  // One of nsec or bunker, as in the wallet file
+  nsec?: string;
+  bunker?: string;
+  bunkerClientKey?: string;
+  // Whether the wallet key was encrypted (NIP-49) on disk, so it is again after import
+  encrypted?: boolean;
+  mnemonic: string;
+  counters: Record<string, number>;
+  mints: string[];
+  relays: string[];
+  // Available and reserved proofs, keyed by mint
+  proofs: Record<string, Proof[]>;
+}
+
+interface BackupFile {
+  format: 'mcp-money-backup';
+  version: 1;
+  kdf: { name: 'scrypt'; N: number; r: number; p: number; salt: string };
+  cipher: 'aes-256-gcm';
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+const SCRYPT = { N: 2 ** 17, r: 8, p: 1 };
+// scrypt needs 128 * N * r bytes, above Node's 32 MiB default
+const SCRYPT_MAXMEM = 256 * 1024 * 1024;
+
+function deriveKey(passphrase: string, salt: Buffer, params: { N: number; r: number; p: number }): Buffer {
+  return scryptSync(passphrase.normalize('NFKC'), salt, 32, { ...params, maxmem: SCRYPT_MAXMEM });
+}
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every(isString);
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function isProof(value: unknown): value is Proof {
+  return isRecord(value) && Number.isSafeInteger(value.amount) && (value.amount as number) > 0 &&
+    isString(value.id) && isString(value.secret) && isString(value.C);
+}
+
+/**
+ * Checks the decrypted backup has the shape export_backup writes, so a
+ * crafted file cannot hand import anything else.
+ */
+function validateBackup(backup: unknown): asserts backup is WalletBackup {
+  const invalid = (field: string) => new Error(`Backup is malformed: bad ${field}`);
+
+  if (!isRecord(backup)) throw invalid('contents');
+  if (backup.version !== 1) throw invalid('version');
+  if (!Number.isFinite(backup.createdAt)) throw invalid('createdAt');
+  if (!isString(backup.npub)) throw invalid('npub');
+  if (!isString(backup.mnemonic) || (!isString(backup.nsec) && !isString(backup.bunker))) {
+    throw new Error('Backup is missing the wallet key or seed');
+  }
+  for (const field of ['nsec', 'bunker', 'bunkerClientKey'] as const) {
+    if (backup[field] !== undefined && !isString(backup[field])) throw invalid(field);
+  }
+  if (!isRecord(backup.counters) || !Object.values(backup.counters).every(Number.isSafeInteger)) throw invalid('counters');
+  if (!isStringArray(backup.mints)) throw invalid('mints');
+  if (!isStringArray(backup.relays)) throw invalid('relays');
+  if (!isRecord(backup.proofs)) throw invalid('proofs');
+  for (const [mint, proofs] of Object.entries(backup.proofs)) {
+    if (!Array.isArray(proofs) || !proofs.every(isProof)) throw invalid(`proofs for ${mint}`);
+  }
+}
+
+/**
+ * Encrypts a backup with a passphrase (scrypt and AES-256-GCM) and
+ * returns the file contents.
+ */
+export function encryptBackup(backup: WalletBackup, passphrase: string): string {
+  if (!passphrase) throw new PassphraseError('Passphrase must not be empty');
+
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', deriveKey(passphrase, salt, SCRYPT), iv);
+  const data = Buffer.concat([cipher.update(JSON.stringify(backup), 'utf8'), cipher.final()]);
+
+  const file: BackupFile = {
+    format: 'mcp-money-backup',
+    version: 1,
+    kdf: { name: 'scrypt', ...SCRYPT, salt: salt.toString('base64') },
+    cipher: 'aes-256-gcm',
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64')
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+export function decryptBackup(content: string, passphrase: string): WalletBackup {
+  let file: BackupFile;
+  try {
+    file = JSON.parse(content);
+  } catch {
+    throw new Error('Not a wallet backup: the file is not JSON');
+  }
+  if (file.format !== 'mcp-money-backup') {
+    throw new Error('Not a wallet backup created by export_backup');
+  }
+  if (file.version !== 1 || file.kdf?.name !== 'scrypt' || file.cipher !== 'aes-256-gcm') {
+    throw new Error(`Unsupported backup version ${file.version}`);
+  }
+  // The cost parameters come from the file, so only the ones we write are accepted
+  if (file.kdf.N !== SCRYPT.N || file.kdf.r !== SCRYPT.r || file.kdf.p !== SCRYPT.p) {
+    throw new Error('Unsupported backup key derivation parameters');
+  }
+  if (![file.kdf.salt, file.iv, file.tag, file.data].every(isString)) {
+    throw new Error('Backup is malformed: missing salt, iv, tag or data');
+  }
+
+  let plaintext: string;
+  try {
+    const decipher = createDecipheriv('aes-256-gcm', deriveKey(passphrase, Buffer.from(file.kdf.salt, 'base64'), SCRYPT), Buffer.from(file.iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+    plaintext = Buffer.concat([decipher.update(Buffer.from(file.data, 'base64')), decipher.final()]).toString('utf8');
+  } catch {
+    throw new PassphraseError('Wrong passphrase or corrupted backup');
+  }
+
+  let backup: unknown;
+  try {
+    backup = JSON.parse(plaintext);
+  } catch {
+    throw new Error('Backup is malformed: the contents are not JSON');
+  }
+  validateBackup(backup);
+  return backup;
+}
+
+export function formatBackupSummary(backup: WalletBackup): string {
+  const proofs = Object.values(backup.proofs).flat();
+  const amount = proofs.reduce((total, proof) => total + proof.amount, 0);
+  return [
+    `Wallet: ${backup.npub}`,
+    `Created: ${new Date(backup.createdAt).toISOString()}`,
+    `Mints: ${backup.mints.length}, relays: ${backup.relays.length}`,
+    `Proofs: ${proofs.length} (${amount} sats)`,
+  ].join('\n');
+}
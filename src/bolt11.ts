@@ -0,0 +1,127 @@
+import { decode } from 'light-bolt11-decoder';
+import { secp256k1 } from '@noble/curves/secp256k1';
+import { bech32 } from '@scure/base';
+import { createHash } from 'crypto';
+
+export interface DecodedInvoice {
+  bolt11: string;
+  amountMsat?: number;
+  amountSats?: number;
+  paymentHash?: string;
+  description?: string;
+  descriptionHash?: string;
+  payee?: string;
+  createdAt?: number;
+  expiresAt?: number;
+}
+
+/**
+ * Decodes the fields of a bolt11 invoice we care about. Amounts are
+ * reported both in msat (as encoded) and in whole sats.
+ */
+export function decodeInvoice(bolt11: string): DecodedInvoice {
+  const decoded = decode(bolt11);
+  const sections = decoded.sections as Array<{ name: string; value?: unknown }>;
+  const section = (name: string) => sections.find((s) => s.name === name)?.value;
+
+  const amount = section('amount');
+  const amountMsat = amount !== undefined ? Number(amount) : undefined;
+  const createdAt = section('timestamp') as number | undefined;
+  const expiry = (section('expiry') as number | undefined) ?? 3600;
+
+  return {
+    bolt11,
+    amountMsat,
+    amountSats: amountMsat !== undefined ? Math.ceil(amountMsat / 1000) : undefined,
+    paymentHash: section('payment_hash') as string | undefined,
+    description: section('description') as string | undefined,
+    descriptionHash: section('description_hash') as string | undefined,
+    payee: section('payee') as string | undefined,
+    createdAt,
+    expiresAt: createdAt !== undefined ? createdAt + expiry : undefined,
+  };
+}
+
+export function isInvoiceExpired(invoice: DecodedInvoice): boolean {
+  return invoice.expiresAt !== undefined && invoice.expiresAt * 1000 <= Date.now();
+}
+
+export interface InvoiceFields {
+  amountSats: number;
+  paymentHash: string;
+  // Private key of the node issuing the invoice, which signs it
+  nodeKey: Uint8Array;
+  description?: string;
+  descriptionHash?: string;
+  expiry?: number;
+  createdAt?: number;
+  // Bech32 network prefix: bc, tb or bcrt (regtest, the default)
+  network?: string;
+}
+
+// Tag types from BOLT 11
+const TAG_PAYMENT_HASH = 1;
+const TAG_DESCRIPTION = 13;
+const TAG_PAYEE = 19;
+const TAG_DESCRIPTION_HASH = 23;
+const TAG_EXPIRY = 6;
+
+const sha256 = (data: Uint8Array) => new Uint8Array(createHash('sha256').update(data).digest());
+
+function intToWords(value: number, length?: number): number[] {
+  const words: number[] = [];
+  do {
+    words.unshift(value & 31);
+    value = Math.floor(value / 32);
+  } while (value > 0);
+  while (length !== undefined && words.length < length) words.unshift(0);
+  return words;
+}
+
+function tagWords(type: number, data: number[]): number[] {
+  return [type, ...intToWords(data.length, 2), ...data];
+}
+
+// Packs 5-bit words into bytes, zero-padding the last byte, as BOLT 11 signs them
+function wordsToPaddedBytes(words: number[]): Uint8Array {
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (const word of words) {
+    buffer = (buffer << 5) | word;
+    bits += 5;
+    while (bits >= 8) {
+      bits -= 8;
+      bytes.push((buffer >> bits) & 255);
+    }
+    buffer &= (1 << bits) - 1;
+  }
+  if (bits > 0) bytes.push((buffer << (8 - bits)) & 255);
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Encodes and signs a bolt11 invoice. Only used by the regtest mint and
+ * LNURL service, which issue invoices nobody pays over Lightning.
+ */
+export function encodeInvoice(fields: InvoiceFields): string {
+  // 1 sat is 10 nano-bitcoin
+  const prefix = `ln${fields.network || 'bcrt'}${fields.amountSats * 10}n`;
+  const payee = secp256k1.getPublicKey(fields.nodeKey, true);
+
+  const words = [
+    ...intToWords(fields.createdAt ?? Math.floor(Date.now() / 1000), 7),
+    ...tagWords(TAG_PAYMENT_HASH, bech32.toWords(Buffer.from(fields.paymentHash, 'hex'))),
+    ...(fields.descriptionHash
+      ? tagWords(TAG_DESCRIPTION_HASH, bech32.toWords(Buffer.from(fields.descriptionHash, 'hex')))
+      : tagWords(TAG_DESCRIPTION, bech32.toWords(Buffer.from(fields.description || '', 'utf8')))),
+    ...(fields.expiry !== undefined ? tagWords(TAG_EXPIRY, intToWords(fields.expiry)) : []),
+    ...tagWords(TAG_PAYEE, bech32.toWords(payee)),
+  ];
+
+  const message = new Uint8Array([...Buffer.from(prefix, 'utf8'), ...wordsToPaddedBytes(words)]);
+  const signature = secp256k1.sign(sha256(message), fields.nodeKey);
+  const signatureWords = bech32.toWords(new Uint8Array([...signature.toCompactRawBytes(), signature.recovery]));
+
+  return bech32.encode(prefix, [...words, ...signatureWords], false);
+}
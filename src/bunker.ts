@@ -0,0 +1,74 @@
+import NDK, { NDKNip46Signer, NDKUser } from '@nostr-dev-kit/ndk';
+
+export const BUNKER_ENV = 'BUNKER_URI';
+
+// Long enough for the user to open an auth URL and approve the connection
+const CONNECT_TIMEOUT = 60 * 1000;
+
+export interface BunkerUri {
+  remotePubkey: string;
+  relays: string[];
+  secret?: string;
+}
+
+/**
+ * Parses a NIP-46 `bunker://<remote-signer-pubkey>?relay=...&secret=...`
+ * connection string, throwing if it is unusable.
+ */
+export function parseBunkerUri(uri: string): BunkerUri {
+  let url: URL;
+  try {
+    url = new URL(uri);
+  } catch {
+    throw new Error(`Invalid bunker URI: ${uri}`);
+  }
+
+  if (url.protocol !== 'bunker:') {
+    throw new Error(`Invalid bunker URI: expected bunker://, got ${url.protocol}//`);
+  }
+
+  const remotePubkey = url.hostname || url.pathname.replace(/^\/\//, '');
+  if (!/^[0-9a-f]{64}$/i.test(remotePubkey)) {
+    throw new Error('Invalid bunker URI: the remote signer pubkey must be 64 hex characters');
+  }
+
+  const relays = url.searchParams.getAll('relay');
+  if (relays.length === 0) {
+    throw new Error('Invalid bunker URI: at least one relay is required');
+  }
+
+  return { remotePubkey, relays, secret: url.searchParams.get('secret') || undefined };
+}
+
+/**
+ * Connects to a NIP-46 remote signer. `clientKey` is the local key from
+ * a previous session; reusing it keeps the bunker from asking for
+ * authorization again.
+ */
+export async function connectBunker(
+  ndk: NDK,
+  uri: string,
+  clientKey?: string
+): Promise<{ signer: NDKNip46Signer; user: NDKUser }> {
+  parseBunkerUri(uri);
+
+  const signer = NDKNip46Signer.bunker(ndk, uri, clientKey);
+  signer.on('authUrl', (url: string) => {
+    console.error(`Remote signer requires authorization, open: ${url}`);
+  });
+
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error('Timed out waiting for the remote signer to respond')), CONNECT_TIMEOUT);
+  });
+
+  try {
+    const user = await Promise.race([signer.blockUntilReady(), timeout]);
+    return { signer, user };
+  } catch (error) {
+    signer.stop();
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
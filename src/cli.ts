@@ -0,0 +1,360 @@
+import { WalletError } from './errors';
+import { parseAmount } from './units';
+
+/**
+ * The command line: which commands there are, the arguments they take
+ * and how those map onto tool arguments. Most commands run the MCP tool
+ * of the same name, so the CLI and agents share one implementation.
+ */
+
+export type CliValueType = 'string' | 'amount' | 'integer' | 'json' | 'list';
+
+export interface CliArgument {
+  // Tool argument the value is passed as
+  name: string;
+  // Placeholder shown in the usage line
+  label: string;
+  type?: CliValueType;
+  required?: boolean;
+}
+
+export interface CliFlag {
+  name: string;
+  // Placeholder for the flag's value; flags without one are switches
+  label?: string;
+  type?: CliValueType;
+  // What a switch sets its argument to
+  value?: unknown;
+  description: string;
+}
+
+export interface CliCommand {
+  description: string;
+  // The MCP tool the command runs; commands without one are CLI-only
+  tool?: string;
+  arguments?: CliArgument[];
+  flags?: Record<string, CliFlag>;
+  // Tool arguments the CLI sets differently from an agent's defaults
+  defaults?: Record<string, unknown>;
+}
+
+const UNIT: Record<string, CliFlag> = {
+  unit: { name: 'unit', label: 'unit', description: 'Unit of the amount: sat (default), msat, btc or a fiat currency such as usd' }
+};
+
+const CURRENCY: Record<string, CliFlag> = {
+  currency: { name: 'currency', label: 'code', description: 'Also show the balance in this fiat currency, e.g. usd' }
+};
+
+const LEDGER_FILTERS: Record<string, CliFlag> = {
+  since: { name: 'since', label: 'date', description: 'Only transactions at or after this date or unix timestamp' },
+  until: { name: 'until', label: 'date', description: 'Only transactions before this date or unix timestamp' },
+  type: { name: 'type', label: 'type', description: 'deposit, melt, zap, send, receive or fee' },
+  counterparty: { name: 'counterparty', label: 'text', description: 'Only transactions whose counterparty contains this text' }
+};
+
+const AMOUNT: CliArgument = { name: 'amount', label: 'amount', type: 'amount', required: true };
+const MINT_URL: CliArgument = { name: 'mintUrl', label: 'mint_url' };
+const BOLT11: CliArgument = { name: 'bolt11', label: 'bolt11', required: true };
+
+export const CLI_COMMANDS: Record<string, CliCommand> = {
+  get_balance: { description: 'Get total wallet balance', tool: 'get_balance', flags: CURRENCY },
+  get_mint_balances: { description: 'Get balance breakdown per mint', tool: 'get_mint_balances', flags: CURRENCY },
+  deposit: {
+    description: 'Create a deposit invoice and wait until it is paid (all mints tried concurrently if not specified)',
+    arguments: [AMOUNT, MINT_URL],
+    flags: UNIT
+  },
+  create_invoice: {
+    description: 'Create a deposit invoice and return at once; follow the deposit with check_deposit',
+    tool: 'deposit',
+    arguments: [AMOUNT, MINT_URL],
+    flags: UNIT
+  },
+  check_deposit: {
+    description: 'Check the status of a deposit, minting its ecash once paid',
+    tool: 'check_deposit',
+    arguments: [{ name: 'depositId', label: 'deposit_id', required: true }]
+  },
+  list_deposits: {
+    description: 'List deposits and their status',
+    tool: 'list_deposits',
+    arguments: [{ name: 'status', label: 'pending|paid|expired|failed' }]
+  },
+  pay: { description: 'Pay a lightning invoice', tool: 'pay', arguments: [BOLT11] },
+  decode_invoice: {
+    description: 'Show an invoice\'s amount, description, payee and expiry',
+    tool: 'decode_invoice',
+    arguments: [BOLT11]
+  },
+  quote_payment: {
+    description: 'Show the mint, fee reserve and whether the balance covers an invoice',
+    tool: 'quote_payment',
+    arguments: [BOLT11]
+  },
+  pay_lightning_address: {
+    description: 'Pay a Lightning address or LNURL',
+    tool: 'pay_lightning_address',
+    arguments: [{ name: 'address', label: 'address_or_lnurl', required: true }, AMOUNT, { name: 'comment', label: 'comment' }],
+    flags: UNIT
+  },
+  zap: {
+    description: 'Zap a user, or a note1/nevent1/naddr1 event (honouring zap splits)',
+    tool: 'zap',
+    arguments: [{ name: 'recipient', label: 'npub_nip05_or_event', required: true }, AMOUNT, { name: 'comment', label: 'comment' }],
+    flags: UNIT
+  },
+  send_token: {
+    description: 'Create a Cashu token to hand to someone',
+    tool: 'send_token',
+    arguments: [AMOUNT, MINT_URL],
+    flags: {
+      ...UNIT,
+      memo: { name: 'memo', label: 'text', description: 'Memo to include in the token' }
+    }
+  },
+  receive_token: {
+    description: 'Redeem a Cashu token into the wallet',
+    tool: 'receive_token',
+    arguments: [{ name: 'token', label: 'token', required: true }],
+    flags: {
+      'add-mint': { name: 'addMint', value: true, description: 'Add the token\'s mint to the wallet if it is not there yet' }
+    }
+  },
+  add_mint: {
+    description: 'Add a mint to the wallet (must be reachable and support NUTs 4, 5, 7, 11, 12)',
+    tool: 'add_mint',
+    arguments: [{ ...MINT_URL, required: true }]
+  },
+  remove_mint: {
+    description: 'Move a mint\'s funds to another mint and remove it',
+    tool: 'remove_mint',
+    arguments: [{ ...MINT_URL, required: true }, { name: 'targetMint', label: 'target_mint_url' }]
+  },
+  rebalance: {
+    description: 'Spread funds across mints',
+    tool: 'rebalance',
+    flags: {
+      targets: { name: 'targets', label: 'json', type: 'json', description: 'Share of the balance per mint, e.g. {"https://mint.a": 60, "https://mint.b": 40}' },
+      caps: { name: 'caps', label: 'json', type: 'json', description: 'Most sats to keep on each mint' },
+      min: { name: 'minTransfer', label: 'sats', type: 'integer', description: 'Skip moves smaller than this' },
+      'dry-run': { name: 'dryRun', value: true, description: 'Only show the plan' }
+    }
+  },
+  get_mint_info: {
+    description: 'Show a mint\'s name, MOTD, contact details and supported NUTs',
+    tool: 'get_mint_info',
+    arguments: [{ ...MINT_URL, required: true }],
+    defaults: { refresh: true }
+  },
+  check_mints: { description: 'Check reachability, latency, keysets and NUT support of every mint', tool: 'check_mints' },
+  verify_wallet: {
+    description: 'Check proofs with the mints, drop spent ones and consolidate small ones',
+    tool: 'verify_wallet',
+    flags: {
+      'no-consolidate': { name: 'consolidate', value: false, description: 'Only check proofs, leaving small ones as they are' }
+    }
+  },
+  restore: {
+    description: 'Rescan every mint for proofs derived from the wallet seed (NUT-13) and recover unspent ones',
+    tool: 'restore'
+  },
+  export_backup: {
+    description: 'Write an encrypted backup of the key, seed, mints, relays and proofs',
+    arguments: [{ name: 'file', label: 'file', required: true }]
+  },
+  import_backup: {
+    description: 'Restore a wallet from a backup, replacing the wallet file if forced',
+    arguments: [{ name: 'file', label: 'file', required: true }],
+    flags: {
+      force: { name: 'force', value: true, description: 'Replace an existing wallet file' }
+    }
+  },
+  list_relays: { description: 'List the wallet\'s relays and their connection status', tool: 'list_relays' },
+  add_relay: {
+    description: 'Add a relay; wallet and token events are published to it',
+    tool: 'add_relay',
+    arguments: [{ name: 'url', label: 'relay_url', required: true }]
+  },
+  remove_relay: {
+    description: 'Stop using a relay',
+    tool: 'remove_relay',
+    arguments: [{ name: 'url', label: 'relay_url', required: true }]
+  },
+  list_incoming_zaps: {
+    description: 'List nutzaps received by this wallet',
+    tool: 'list_incoming_zaps',
+    arguments: [{ name: 'status', label: 'status' }],
+    flags: {
+      limit: { name: 'limit', label: 'n', type: 'integer', description: 'Show at most this many' }
+    }
+  },
+  list_profiles: { description: 'List wallet profiles; the active one is marked with *' },
+  create_profile: {
+    description: 'Create a new wallet profile, with the key given by --nsec or --bunker or a new one',
+    arguments: [{ name: 'name', label: 'name', required: true }]
+  },
+  switch_profile: {
+    description: 'Make a profile the active one',
+    arguments: [{ name: 'name', label: 'name', required: true }]
+  },
+  encrypt_wallet: { description: 'Encrypt the wallet key with a passphrase (NIP-49)' },
+  change_passphrase: { description: 'Change the passphrase of an encrypted wallet' },
+  list_transactions: {
+    description: 'List recorded transactions',
+    tool: 'list_transactions',
+    flags: {
+      ...LEDGER_FILTERS,
+      limit: { name: 'limit', label: 'n', type: 'integer', description: 'Show at most this many, newest first' }
+    }
+  },
+  export_transactions: {
+    description: 'Export recorded transactions',
+    tool: 'export_transactions',
+    arguments: [{ name: 'format', label: 'csv|json', required: true }],
+    flags: LEDGER_FILTERS
+  },
+  create_nwc_connection: {
+    description: 'Create a Nostr Wallet Connect string',
+    tool: 'create_nwc_connection',
+    arguments: [{ name: 'name', label: 'name', required: true }],
+    flags: {
+      permissions: { name: 'permissions', label: 'method,...', type: 'list', description: 'NIP-47 methods the connection may call (default all)' },
+      budget: { name: 'budget', label: 'sats', type: 'integer', description: 'Most sats the connection may spend per period' },
+      period: { name: 'budgetPeriod', label: 'period', description: 'daily, weekly, monthly, yearly or never' },
+      expires: { name: 'expiresInDays', label: 'days', type: 'integer', description: 'Revoke the connection after this many days' }
+    }
+  },
+  list_nwc_connections: { description: 'List Nostr Wallet Connect connections', tool: 'list_nwc_connections' },
+  revoke_nwc_connection: {
+    description: 'Revoke a Nostr Wallet Connect connection',
+    tool: 'revoke_nwc_connection',
+    arguments: [{ name: 'id', label: 'connection_id', required: true }]
+  },
+  serve: {
+    description: 'Start MCP server mode, on stdio unless --http is given',
+    flags: {
+      http: { name: 'http', label: 'port', type: 'integer', description: 'Serve MCP over Streamable HTTP with bearer-token auth' },
+      host: { name: 'host', label: 'address', description: 'Address to listen on (default 127.0.0.1)' },
+      nwc: { name: 'nwc', value: true, description: 'Also answer Nostr Wallet Connect (NIP-47) requests' }
+    }
+  }
+};
+
+function parseValue(type: CliValueType, value: string, label: string): unknown {
+  switch (type) {
+    case 'amount':
+      return parseAmount(value);
+    case 'integer':
+      if (!/^\d+$/.test(value)) {
+        throw new WalletError('INVALID_ARGUMENT', `Invalid ${label}: ${value} is not a whole number`);
+      }
+      return Number(value);
+    case 'json':
+      try {
+        return JSON.parse(value);
+      } catch {
+        throw new WalletError('INVALID_ARGUMENT', `Invalid ${label}: ${value} is not valid JSON`);
+      }
+    case 'list':
+      return value.split(',').map((item) => item.trim()).filter(Boolean);
+    default:
+      return value;
+  }
+}
+
+/**
+ * Turns a command's arguments into the arguments of its tool. Unknown
+ * flags, missing values and extra arguments are errors rather than
+ * being ignored.
+ */
+export function parseCommandArgs(command: CliCommand, args: string[]): Record<string, unknown> {
+  const parsed: Record<string, unknown> = { ...command.defaults };
+  const positional: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    if (!args[i].startsWith('--')) {
+      positional.push(args[i]);
+      continue;
+    }
+
+    const flag = command.flags?.[args[i].slice(2)];
+    if (!flag) {
+      throw new WalletError('INVALID_ARGUMENT', `Unknown option: ${args[i]}`);
+    }
+    if (!flag.label) {
+      parsed[flag.name] = flag.value ?? true;
+      continue;
+    }
+    if (i + 1 >= args.length) {
+      throw new WalletError('INVALID_ARGUMENT', `${args[i]} needs a value`);
+    }
+    parsed[flag.name] = parseValue(flag.type || 'string', args[++i], args[i - 1]);
+  }
+
+  const expected = command.arguments || [];
+  if (positional.length > expected.length) {
+    throw new WalletError('INVALID_ARGUMENT', `Unexpected argument: ${positional[expected.length]}`);
+  }
+  expected.forEach((argument, i) => {
+    if (positional[i] !== undefined) {
+      parsed[argument.name] = parseValue(argument.type || 'string', positional[i], argument.label);
+    } else if (argument.required) {
+      throw new WalletError('INVALID_ARGUMENT', `Missing ${argument.label}`);
+    }
+  });
+
+  return parsed;
+}
+
+export function formatCommandUsage(name: string): string {
+  const command = CLI_COMMANDS[name];
+  const parts = [name];
+  for (const argument of command.arguments || []) {
+    parts.push(argument.required ? `<${argument.label}>` : `[${argument.label}]`);
+  }
+  for (const [flag, { label }] of Object.entries(command.flags || {})) {
+    parts.push(label ? `[--${flag} ${label}]` : `[--${flag}]`);
+  }
+  return parts.join(' ');
+}
+
+export function formatCommandHelp(name: string): string {
+  const command = CLI_COMMANDS[name];
+  const lines = [`Usage: ${formatCommandUsage(name)}`, '', command.description];
+  const flags = Object.entries(command.flags || {});
+  if (flags.length > 0) {
+    lines.push('', 'Options:');
+    for (const [flag, { label, description }] of flags) {
+      lines.push(`  --${flag}${label ? ` <${label}>` : ''} - ${description}`);
+    }
+  }
+  if (command.tool) {
+    lines.push('', `Runs the ${command.tool} tool; --json prints its structured result.`);
+  }
+  return lines.join('\n');
+}
+
+export function formatUsage(): string {
+  return [
+    'Available commands:',
+    ...Object.keys(CLI_COMMANDS)
+      .filter((name) => name !== 'serve')
+      .map((name) => `  ${formatCommandUsage(name)} - ${CLI_COMMANDS[name].description}`),
+    '',
+    'Amounts are in sats; --unit takes msat, btc or a fiat currency such as usd, converted at the current rate',
+    'Run <command> --help for a command\'s options',
+    '',
+    'Global options:',
+    '  --json - Print the result as JSON instead of text; errors are printed as {"error": {"code", "message"}}',
+    '  --nsec <nsec> - Use specific nsec key (overrides env var and config)',
+    '  --bunker <bunker://...> - Sign through a NIP-46 remote signer instead of a local key',
+    '  --wallet-file <path> - Use this wallet file (overrides WALLET_FILE env var and profiles)',
+    '  --profile <name> - Use a named profile (overrides WALLET_PROFILE env var and the active profile)',
+    '  --regtest - Use fake mints, in-memory relays and Lightning addresses in this process instead of the network',
+    '',
+    'Run without arguments (or with serve) to start MCP server mode on stdio',
+    '  serve --http <port> [--host <address>] - Serve MCP over Streamable HTTP with bearer-token auth (default host 127.0.0.1)',
+    '  serve --nwc - Also answer Nostr Wallet Connect (NIP-47) requests; combines with --http'
+  ].join('\n');
+}
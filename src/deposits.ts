@@ -0,0 +1,197 @@
+import { MintQuoteState } from '@cashu/cashu-ts';
+import { NDKCashuDeposit, NDKCashuWallet } from '@nostr-dev-kit/ndk-wallet';
+import { decodeInvoice } from './bolt11';
+
+export type DepositStatus = 'pending' | 'paid' | 'expired' | 'failed';
+
+/**
+ * A deposit quote as stored under `deposits` in `.wallet.json`.
+ */
+export interface DepositRecord {
+  depositId: string;
+  quoteId: string;
+  mint: string;
+  amount: number;
+  bolt11: string;
+  status: DepositStatus;
+  createdAt: number;
+  updatedAt: number;
+  expiresAt?: number;
+  error?: string;
+}
+
+/**
+ * Keeps track of deposit quotes so they can be looked up by ID and
+ * claimed after a restart. The records object is shared with
+ * WalletData, and onChange is called whenever a status changes so the
+ * caller can persist it.
+ */
+export class DepositTracker {
+  private active = new Map<string, NDKCashuDeposit>();
+
+  constructor(
+    private wallet: NDKCashuWallet,
+    private records: Record<string, DepositRecord>,
+    private onChange: (record: DepositRecord) => void
+  ) {}
+
+  track(deposit: NDKCashuDeposit, depositId: string, bolt11: string): DepositRecord {
+    if (!deposit.quoteId) throw new Error('Deposit has no quote ID');
+
+    let expiresAt: number | undefined;
+    try {
+      const seconds = decodeInvoice(bolt11).expiresAt;
+      expiresAt = seconds !== undefined ? seconds * 1000 : undefined;
+    } catch {
+      expiresAt = undefined;
+    }
+
+    const now = Date.now();
+    const record: DepositRecord = {
+      depositId,
+      quoteId: deposit.quoteId,
+      mint: deposit.mint,
+      amount: deposit.amount,
+      bolt11,
+      status: 'pending',
+      createdAt: now,
+      updatedAt: now,
+      expiresAt,
+    };
+    this.records[depositId] = record;
+    this.onChange(record);
+
+    this.watch(deposit, record);
+    return record;
+  }
+
+  /**
+   * Resumes polling the mint for every deposit that was still pending
+   * when the process last exited.
+   */
+  resume(): void {
+    for (const record of Object.values(this.records)) {
+      if (record.status !== 'pending' || this.active.has(record.depositId)) continue;
+
+      const deposit = new NDKCashuDeposit(this.wallet, record.amount, record.mint);
+      deposit.quoteId = record.quoteId;
+      this.watch(deposit, record);
+
+      if (record.expiresAt && record.expiresAt <= Date.now()) {
+        // The invoice may have been paid before it expired; keep polling unless the mint says it was not
+        this.expire(deposit, record).then(() => {
+          if (record.status === 'pending') deposit.check();
+        });
+      } else {
+        deposit.check();
+      }
+    }
+  }
+
+  /**
+   * Asks the mint right away whether a pending deposit has been paid.
+   */
+  async refresh(depositId: string): Promise<DepositRecord | undefined> {
+    const record = this.records[depositId];
+    const deposit = this.active.get(depositId);
+    if (record?.status === 'pending' && deposit && !deposit.finalized) {
+      if (record.expiresAt && record.expiresAt <= Date.now()) {
+        // Still pending after expiry only if the mint could not be asked last time
+        await this.expire(deposit, record);
+        return this.records[depositId];
+      }
+      try {
+        await deposit.finalize();
+      } catch (error) {
+        console.error(`Failed to check deposit ${depositId}:`, error);
+      }
+    }
+    return this.records[depositId];
+  }
+
+  get(depositId: string): DepositRecord | undefined {
+    return this.records[depositId];
+  }
+
+  list(status?: DepositStatus): DepositRecord[] {
+    return Object.values(this.records)
+      .filter((record) => !status || record.status === status)
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  private watch(deposit: NDKCashuDeposit, record: DepositRecord): void {
+    this.active.set(record.depositId, deposit);
+
+    deposit.on('success', () => {
+      this.setStatus(record, 'paid');
+    });
+
+    deposit.on('error', (error) => {
+      this.setStatus(record, 'failed', error);
+    });
+
+    if (record.expiresAt && record.expiresAt > Date.now()) {
+      const timer = setTimeout(() => this.expire(deposit, record), record.expiresAt - Date.now());
+      timer.unref();
+    }
+  }
+
+  /**
+   * Settles a deposit whose invoice has expired, claiming it if it was
+   * paid in time. Only a mint that reports the quote as unpaid makes it
+   * expired: when the mint cannot be asked the deposit stays pending,
+   * so it is looked at again later rather than its funds being abandoned.
+   */
+  private async expire(deposit: NDKCashuDeposit, record: DepositRecord): Promise<void> {
+    if (record.status !== 'pending') return;
+
+    let state: MintQuoteState;
+    try {
+      await deposit.finalize();
+      if (record.status !== 'pending') return;
+
+      const cashuWallet = await this.wallet.getCashuWallet(record.mint);
+      ({ state } = await cashuWallet.checkMintQuote(record.quoteId));
+    } catch (error) {
+      console.error(`Could not check expired deposit ${record.depositId} with ${record.mint}; it stays pending:`, error);
+      return;
+    }
+
+    if (state === MintQuoteState.ISSUED) {
+      // Minted, but not by us, so it was claimed elsewhere
+      deposit.finalized = true;
+      this.setStatus(record, 'paid', 'Claimed by another client');
+    } else if (state === MintQuoteState.UNPAID) {
+      // Stops the deposit's polling loop
+      deposit.finalized = true;
+      this.setStatus(record, 'expired');
+    }
+    // Paid but not minted yet: the deposit stays pending and polling claims it
+  }
+
+  private setStatus(record: DepositRecord, status: DepositStatus, error?: string): void {
+    if (record.status === status) return;
+
+    record.status = status;
+    record.updatedAt = Date.now();
+    if (error) record.error = error;
+    if (status !== 'pending') this.active.delete(record.depositId);
+
+    this.onChange(record);
+  }
+}
+
+export function formatDeposit(record: DepositRecord): string {
+  const parts = [
+    record.depositId,
+    record.status,
+    `${record.amount} sats`,
+    record.mint,
+    `created ${new Date(record.createdAt).toISOString()}`,
+  ];
+  if (record.status === 'pending' && record.expiresAt) {
+    parts.push(`expires ${new Date(record.expiresAt).toISOString()}`);
+  }
+  if (record.error) parts.push(record.error);
+  return parts.join(' | ');
+}
@@ -0,0 +1,76 @@
+import { HttpResponseError, MintOperationError, NetworkError } from '@cashu/cashu-ts';
+
+/**
+ * Machine-readable reasons a wallet operation failed, returned with
+ * every MCP tool error so agents can react without parsing messages.
+ */
+export type WalletErrorCode =
+  | 'INVALID_ARGUMENT'
+  | 'NOT_FOUND'
+  | 'PERMISSION_DENIED'
+  | 'INSUFFICIENT_FUNDS'
+  | 'INVOICE_EXPIRED'
+  | 'RECIPIENT_UNRESOLVABLE'
+  | 'MINT_UNREACHABLE'
+  | 'MINT_INCOMPATIBLE'
+  | 'MINT_ERROR'
+  | 'TOKEN_SPENT'
+  | 'POLICY_REJECTED'
+  | 'PAYMENT_DECLINED'
+  | 'PAYMENT_FAILED'
+  | 'PAYMENT_PENDING'
+  | 'INTERNAL_ERROR';
+
+export const WALLET_ERROR_CODES: WalletErrorCode[] = [
+  'INVALID_ARGUMENT',
+  'NOT_FOUND',
+  'PERMISSION_DENIED',
+  'INSUFFICIENT_FUNDS',
+  'INVOICE_EXPIRED',
+  'RECIPIENT_UNRESOLVABLE',
+  'MINT_UNREACHABLE',
+  'MINT_INCOMPATIBLE',
+  'MINT_ERROR',
+  'TOKEN_SPENT',
+  'POLICY_REJECTED',
+  'PAYMENT_DECLINED',
+  'PAYMENT_FAILED',
+  'PAYMENT_PENDING',
+  'INTERNAL_ERROR',
+];
+
+export class WalletError extends Error {
+  readonly code: WalletErrorCode;
+
+  constructor(code: WalletErrorCode, message: string) {
+    super(message);
+    this.name = 'WalletError';
+    this.code = code;
+  }
+}
+
+// NUT error code for inputs the mint has already seen spent
+const TOKEN_ALREADY_SPENT = 11001;
+
+/**
+ * The code for an error thrown anywhere in the wallet. Errors from
+ * cashu-ts and ndk-wallet carry no code of ours, so they are classified
+ * by type and, failing that, by message.
+ */
+export function errorCode(error: unknown): WalletErrorCode {
+  if (error instanceof WalletError) return error.code;
+  if (error instanceof MintOperationError) {
+    return error.code === TOKEN_ALREADY_SPENT ? 'TOKEN_SPENT' : 'MINT_ERROR';
+  }
+  if (error instanceof NetworkError) return 'MINT_UNREACHABLE';
+  if (error instanceof HttpResponseError) return 'MINT_ERROR';
+
+  const message = errorMessage(error);
+  if (/already spent/i.test(message)) return 'TOKEN_SPENT';
+  if (/insufficient|not enough|less than/i.test(message)) return 'INSUFFICIENT_FUNDS';
+  return 'INTERNAL_ERROR';
+}
+
+export function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,496 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { createHash, randomBytes } from 'crypto';
+import { secp256k1, schnorr } from '@noble/curves/secp256k1';
+import { deriveKeysetId } from '@cashu/cashu-ts';
+import { decodeInvoice, encodeInvoice, isInvoiceExpired } from './bolt11';
+
+type Point = InstanceType<typeof secp256k1.ProjectivePoint>;
+
+export interface FakeMintOptions {
+  name?: string;
+  host?: string;
+  // 0 picks a free port
+  port?: number;
+  // Fee reserve asked for on every melt quote, all of it returned as change
+  feeReserve?: number;
+  inputFeePpk?: number;
+  // Called when a melt pays an invoice, e.g. so an LNURL service can publish a zap receipt; returns the preimage if the payee knows it
+  onInvoicePaid?: (bolt11: string) => string | void;
+}
+
+interface BlindedMessage {
+  amount: number;
+  id: string;
+  B_: string;
+}
+
+interface BlindSignature {
+  amount: number;
+  id: string;
+  C_: string;
+  dleq: { e: string; s: string };
+}
+
+interface ProofInput {
+  amount: number;
+  id: string;
+  secret: string;
+  C: string;
+  witness?: string | { signatures?: string[] };
+}
+
+interface MintQuote {
+  quote: string;
+  request: string;
+  amount: number;
+  unit: string;
+  state: 'UNPAID' | 'PAID' | 'ISSUED';
+  expiry: number;
+}
+
+interface MeltQuote {
+  quote: string;
+  request: string;
+  amount: number;
+  unit: string;
+  fee_reserve: number;
+  state: 'UNPAID' | 'PENDING' | 'PAID';
+  expiry: number;
+  payment_preimage: string | null;
+  change?: BlindSignature[];
+}
+
+/**
+ * A mint error, sent back as `{ detail, code }` with HTTP 400 like a
+ * real Nutshell or CDK mint.
+ */
+class MintError extends Error {
+  constructor(message: string, readonly code: number) {
+    super(message);
+    this.name = 'MintError';
+  }
+}
+
+// Enough denominations for amounts up to 2^32 - 1 sats
+const KEYSET_SIZE = 32;
+const QUOTE_EXPIRY = 3600;
+const N = secp256k1.CURVE.n;
+const G = secp256k1.ProjectivePoint.BASE;
+const HASH_TO_CURVE_DOMAIN = Buffer.from('Secp256k1_HashToCurve_Cashu_', 'utf8');
+
+const sha256 = (data: Uint8Array | string) => createHash('sha256').update(data).digest();
+const toScalar = (bytes: Uint8Array) => BigInt(`0x${Buffer.from(bytes).toString('hex')}`) % N;
+const scalarHex = (value: bigint) => value.toString(16).padStart(64, '0');
+const randomScalar = () => toScalar(secp256k1.utils.randomPrivateKey());
+const sum = (items: Array<{ amount: number }>) => items.reduce((total, item) => total + item.amount, 0);
+
+/**
+ * NUT-00 hash_to_curve: the first valid point whose x coordinate is
+ * sha256(msg_hash || counter).
+ */
+function hashToCurve(secret: string): Point {
+  const msgHash = sha256(Buffer.concat([HASH_TO_CURVE_DOMAIN, Buffer.from(secret, 'utf8')]));
+  const counter = Buffer.alloc(4);
+  for (let i = 0; i < 2 ** 16; i++) {
+    counter.writeUInt32LE(i);
+    try {
+      return secp256k1.ProjectivePoint.fromHex(Buffer.concat([Buffer.from([2]), sha256(Buffer.concat([msgHash, counter]))]));
+    } catch {
+      // Not on the curve, try the next counter
+    }
+  }
+  throw new Error('No valid point found');
+}
+
+// NUT-12 challenge: sha256 over the uncompressed hex of each point
+function hashE(points: Point[]): bigint {
+  return toScalar(sha256(points.map((point) => point.toHex(false)).join('')));
+}
+
+// Amounts of a number's set bits, smallest first
+function splitAmount(amount: number): number[] {
+  const amounts: number[] = [];
+  for (let bit = 0; amount > 0; bit++, amount = Math.floor(amount / 2)) {
+    if (amount % 2 === 1) amounts.push(2 ** bit);
+  }
+  return amounts;
+}
+
+/**
+ * An in-process Cashu mint for regtest mode and tests. It implements
+ * the NUT-01/02/03/04/05/06/07/08/09/11/12 endpoints for the `sat` unit
+ * over plain HTTP, keeps everything in memory and treats every
+ * Lightning invoice as paid at once: mint quotes are created paid and
+ * melts succeed without a Lightning fee.
+ */
+export class FakeMint {
+  readonly keysetId: string;
+  private privateKeys = new Map<number, bigint>();
+  private publicKeys: Record<string, string> = {};
+  private nodeKey = secp256k1.utils.randomPrivateKey();
+  private spent = new Set<string>();
+  // Blind signatures by B_, for NUT-09 restore and to refuse signing an output twice
+  private signatures = new Map<string, BlindSignature>();
+  private mintQuotes = new Map<string, MintQuote>();
+  private meltQuotes = new Map<string, MeltQuote>();
+  private server: Server | null = null;
+  private mintUrl = '';
+
+  constructor(private options: FakeMintOptions = {}) {
+    for (let i = 0; i < KEYSET_SIZE; i++) {
+      const privateKey = randomScalar();
+      this.privateKeys.set(2 ** i, privateKey);
+      this.publicKeys[String(2 ** i)] = G.multiply(privateKey).toHex(true);
+    }
+    this.keysetId = deriveKeysetId(this.publicKeys);
+  }
+
+  get url(): string {
+    if (!this.mintUrl) throw new Error('Fake mint is not running');
+    return this.mintUrl;
+  }
+
+  async start(): Promise<string> {
+    const server = createServer((req, res) => this.handle(req, res));
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port ?? 0, this.options.host ?? '127.0.0.1', () => resolve());
+    });
+    const address = server.address() as AddressInfo;
+    this.server = server;
+    this.mintUrl = `http://${address.address}:${address.port}`;
+    return this.mintUrl;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = null;
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  /**
+   * Issues an invoice signed by this mint's Lightning node, for tests
+   * that need something to pay.
+   */
+  createInvoice(amount: number, description = '', options: { descriptionHash?: string; expiry?: number } = {}): { bolt11: string; paymentHash: string; preimage: string } {
+    const preimage = randomBytes(32).toString('hex');
+    const paymentHash = sha256(Buffer.from(preimage, 'hex')).toString('hex');
+    const bolt11 = encodeInvoice({
+      amountSats: amount,
+      paymentHash,
+      nodeKey: this.nodeKey,
+      description,
+      descriptionHash: options.descriptionHash,
+      expiry: options.expiry ?? QUOTE_EXPIRY
+    });
+    return { bolt11, paymentHash, preimage };
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    try {
+      const path = new URL(req.url || '/', 'http://localhost').pathname.replace(/\/+$/, '');
+      const body = req.method === 'POST' ? await this.readBody(req) : {};
+      this.send(res, 200, this.route(req.method || 'GET', path, body));
+    } catch (error) {
+      const code = error instanceof MintError ? error.code : 0;
+      this.send(res, 400, { detail: error instanceof Error ? error.message : String(error), code });
+    }
+  }
+
+  private route(method: string, path: string, body: any): unknown {
+    const last = path.split('/').pop() || '';
+
+    if (method === 'GET' && path === '/v1/info') return this.info();
+    if (method === 'GET' && path === '/v1/keys') return { keysets: [this.keyset()] };
+    if (method === 'GET' && path.startsWith('/v1/keys/')) {
+      if (last !== this.keysetId) throw new MintError(`Unknown keyset ${last}`, 12001);
+      return { keysets: [this.keyset()] };
+    }
+    if (method === 'GET' && path === '/v1/keysets') {
+      return { keysets: [{ id: this.keysetId, unit: 'sat', active: true, input_fee_ppk: this.options.inputFeePpk ?? 0 }] };
+    }
+    if (method === 'POST' && path === '/v1/mint/quote/bolt11') return this.createMintQuote(body);
+    if (method === 'GET' && path.startsWith('/v1/mint/quote/bolt11/')) return this.mintQuote(last);
+    if (method === 'POST' && path === '/v1/mint/bolt11') return this.mint(body);
+    if (method === 'POST' && path === '/v1/melt/quote/bolt11') return this.createMeltQuote(body);
+    if (method === 'GET' && path.startsWith('/v1/melt/quote/bolt11/')) return this.meltQuote(last);
+    if (method === 'POST' && path === '/v1/melt/bolt11') return this.melt(body);
+    if (method === 'POST' && path === '/v1/swap') return this.swap(body);
+    if (method === 'POST' && path === '/v1/checkstate') return this.checkState(body);
+    if (method === 'POST' && path === '/v1/restore') return this.restore(body);
+    throw new MintError(`Not found: ${method} ${path}`, 0);
+  }
+
+  private info() {
+    const methods = [{ method: 'bolt11', unit: 'sat' }];
+    return {
+      name: this.options.name || 'Regtest mint',
+      pubkey: Buffer.from(secp256k1.getPublicKey(this.nodeKey, true)).toString('hex'),
+      version: 'mcp-money-fakemint/1.0',
+      description: 'In-memory mint for regtest mode; every invoice is paid immediately',
+      nuts: {
+        '4': { methods, disabled: false },
+        '5': { methods, disabled: false },
+        '7': { supported: true },
+        '8': { supported: true },
+        '9': { supported: true },
+        '10': { supported: true },
+        '11': { supported: true },
+        '12': { supported: true },
+      },
+    };
+  }
+
+  private keyset() {
+    return { id: this.keysetId, unit: 'sat', keys: this.publicKeys };
+  }
+
+  private createMintQuote(body: { amount?: number; unit?: string }): MintQuote & { paid: boolean } {
+    const amount = this.checkAmount(body.amount);
+    const { bolt11 } = this.createInvoice(amount, 'Regtest deposit');
+    const quote: MintQuote = {
+      quote: randomBytes(16).toString('hex'),
+      request: bolt11,
+      amount,
+      unit: 'sat',
+      state: 'PAID',
+      expiry: Math.floor(Date.now() / 1000) + QUOTE_EXPIRY,
+    };
+    this.mintQuotes.set(quote.quote, quote);
+    return { ...quote, paid: true };
+  }
+
+  private mintQuote(id: string): MintQuote & { paid: boolean } {
+    const quote = this.mintQuotes.get(id);
+    if (!quote) throw new MintError('Quote not found', 20007);
+    return { ...quote, paid: quote.state !== 'UNPAID' };
+  }
+
+  private mint(body: { quote?: string; outputs?: BlindedMessage[] }): { signatures: BlindSignature[] } {
+    const quote = this.mintQuotes.get(body.quote || '');
+    if (!quote) throw new MintError('Quote not found', 20007);
+    if (quote.state === 'ISSUED') throw new MintError('Quote already issued', 20002);
+    if (quote.state !== 'PAID') throw new MintError('Quote not paid', 20001);
+
+    const outputs = body.outputs || [];
+    if (sum(outputs) !== quote.amount) {
+      throw new MintError(`Outputs total ${sum(outputs)} but the quote is for ${quote.amount}`, 11002);
+    }
+    const signatures = this.sign(outputs);
+    quote.state = 'ISSUED';
+    return { signatures };
+  }
+
+  private createMeltQuote(body: { request?: string; unit?: string }): MeltQuote & { paid: boolean } {
+    if (!body.request) throw new MintError('Missing request', 0);
+    let invoice;
+    try {
+      invoice = decodeInvoice(body.request);
+    } catch {
+      throw new MintError('Invalid bolt11 invoice', 20008);
+    }
+    if (!invoice.amountSats) throw new MintError('Amountless invoices are not supported', 20008);
+    if (isInvoiceExpired(invoice)) {
+      throw new MintError('Invoice has expired', 20008);
+    }
+
+    const quote: MeltQuote = {
+      quote: randomBytes(16).toString('hex'),
+      request: body.request,
+      amount: invoice.amountSats,
+      unit: 'sat',
+      fee_reserve: this.options.feeReserve ?? 2,
+      state: 'UNPAID',
+      expiry: Math.floor(Date.now() / 1000) + QUOTE_EXPIRY,
+      payment_preimage: null,
+    };
+    this.meltQuotes.set(quote.quote, quote);
+    return { ...quote, paid: false };
+  }
+
+  private meltQuote(id: string): MeltQuote & { paid: boolean } {
+    const quote = this.meltQuotes.get(id);
+    if (!quote) throw new MintError('Quote not found', 20007);
+    return { ...quote, paid: quote.state === 'PAID' };
+  }
+
+  private melt(body: { quote?: string; inputs?: ProofInput[]; outputs?: BlindedMessage[] }): MeltQuote & { paid: boolean } {
+    const quote = this.meltQuotes.get(body.quote || '');
+    if (!quote) throw new MintError('Quote not found', 20007);
+    if (quote.state !== 'UNPAID') throw new MintError('Quote already paid', 20006);
+
+    const inputs = body.inputs || [];
+    this.verifyInputs(inputs);
+    const available = sum(inputs) - this.inputFee(inputs);
+    if (available < quote.amount + quote.fee_reserve) {
+      throw new MintError(`Inputs cover ${available} sats but the quote needs ${quote.amount + quote.fee_reserve}`, 11002);
+    }
+
+    // No Lightning fee is charged, so everything above the amount comes back through the blank outputs (NUT-08)
+    const blanks = body.outputs || [];
+    const changeAmounts = splitAmount(available - quote.amount).slice(0, blanks.length);
+    const change = this.sign(changeAmounts.map((amount, i) => ({ ...blanks[i], amount })));
+
+    this.spend(inputs);
+    quote.state = 'PAID';
+    quote.payment_preimage = this.options.onInvoicePaid?.(quote.request) || randomBytes(32).toString('hex');
+    quote.change = change;
+    return { ...quote, paid: true };
+  }
+
+  private swap(body: { inputs?: ProofInput[]; outputs?: BlindedMessage[] }): { signatures: BlindSignature[] } {
+    const inputs = body.inputs || [];
+    const outputs = body.outputs || [];
+    this.verifyInputs(inputs);
+    const fee = this.inputFee(inputs);
+    if (sum(inputs) - fee !== sum(outputs)) {
+      throw new MintError(`Inputs (${sum(inputs)}) minus fees (${fee}) do not match outputs (${sum(outputs)})`, 11002);
+    }
+    const signatures = this.sign(outputs);
+    this.spend(inputs);
+    return { signatures };
+  }
+
+  private checkState(body: { Ys?: string[] }): { states: Array<{ Y: string; state: string; witness: null }> } {
+    return {
+      states: (body.Ys || []).map((Y) => ({ Y, state: this.spent.has(Y) ? 'SPENT' : 'UNSPENT', witness: null })),
+    };
+  }
+
+  private restore(body: { outputs?: BlindedMessage[] }) {
+    const outputs: BlindedMessage[] = [];
+    const signatures: BlindSignature[] = [];
+    for (const output of body.outputs || []) {
+      const signature = this.signatures.get(output.B_);
+      if (!signature) continue;
+      outputs.push({ ...output, amount: signature.amount });
+      signatures.push(signature);
+    }
+    return { outputs, signatures, promises: signatures };
+  }
+
+  private checkAmount(amount: unknown): number {
+    if (typeof amount !== 'number' || !Number.isInteger(amount) || amount <= 0) {
+      throw new MintError('Amount must be a positive whole number of sats', 11002);
+    }
+    return amount;
+  }
+
+  private inputFee(inputs: ProofInput[]): number {
+    return Math.ceil((inputs.length * (this.options.inputFeePpk ?? 0)) / 1000);
+  }
+
+  /**
+   * Checks that every input was signed by us, is unspent, appears once
+   * and, if locked to a key (NUT-11), carries a signature from it.
+   */
+  private verifyInputs(inputs: ProofInput[]): void {
+    if (inputs.length === 0) throw new MintError('No inputs provided', 11002);
+
+    const seen = new Set<string>();
+    for (const input of inputs) {
+      const privateKey = input.id === this.keysetId ? this.privateKeys.get(input.amount) : undefined;
+      if (!privateKey) throw new MintError(`Unknown keyset or amount: ${input.id} ${input.amount}`, 12001);
+
+      const Y = hashToCurve(input.secret);
+      const key = Y.toHex(true);
+      if (seen.has(key)) throw new MintError('Duplicate inputs provided', 11007);
+      seen.add(key);
+      if (this.spent.has(key)) throw new MintError('Token already spent', 11001);
+
+      let C: Point;
+      try {
+        C = secp256k1.ProjectivePoint.fromHex(input.C);
+      } catch {
+        throw new MintError('Could not verify proof', 10003);
+      }
+      if (!C.equals(Y.multiply(privateKey))) throw new MintError('Could not verify proof', 10003);
+
+      this.verifyWitness(input);
+    }
+  }
+
+  private verifyWitness(input: ProofInput): void {
+    let secret: unknown;
+    try {
+      secret = JSON.parse(input.secret);
+    } catch {
+      return;
+    }
+    if (!Array.isArray(secret) || secret[0] !== 'P2PK') return;
+
+    const pubkey = String(secret[1]?.data || '');
+    const witness = typeof input.witness === 'string' ? JSON.parse(input.witness) : input.witness;
+    const message = sha256(input.secret);
+    const signed = (witness?.signatures || []).some((signature: string) => {
+      try {
+        return schnorr.verify(signature, message, pubkey.slice(-64));
+      } catch {
+        return false;
+      }
+    });
+    if (!signed) throw new MintError('Witness is missing for p2pk signature', 20008);
+  }
+
+  private spend(inputs: ProofInput[]): void {
+    for (const input of inputs) {
+      this.spent.add(hashToCurve(input.secret).toHex(true));
+    }
+  }
+
+  /**
+   * Signs blinded messages (C_ = k * B_) with a NUT-12 DLEQ proof.
+   */
+  private sign(outputs: BlindedMessage[]): BlindSignature[] {
+    const prepared = outputs.map((output) => {
+      const privateKey = output.id === this.keysetId ? this.privateKeys.get(output.amount) : undefined;
+      if (!privateKey) throw new MintError(`Unknown keyset or amount: ${output.id} ${output.amount}`, 12001);
+      if (this.signatures.has(output.B_)) throw new MintError('Blinded message of output already signed', 10002);
+      let B_: Point;
+      try {
+        B_ = secp256k1.ProjectivePoint.fromHex(output.B_);
+      } catch {
+        throw new MintError('Invalid blinded message', 10003);
+      }
+      return { output, privateKey, B_ };
+    });
+
+    return prepared.map(({ output, privateKey, B_ }) => {
+      const C_ = B_.multiply(privateKey);
+      const r = randomScalar();
+      const e = hashE([G.multiply(r), B_.multiply(r), G.multiply(privateKey), C_]);
+      const s = (r + e * privateKey) % N;
+      const signature: BlindSignature = {
+        amount: output.amount,
+        id: this.keysetId,
+        C_: C_.toHex(true),
+        dleq: { e: scalarHex(e), s: scalarHex(s) },
+      };
+      this.signatures.set(output.B_, signature);
+      return signature;
+    });
+  }
+
+  private readBody(req: IncomingMessage): Promise<any> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      req.on('data', (chunk: Buffer) => chunks.push(chunk));
+      req.on('end', () => {
+        try {
+          resolve(chunks.length ? JSON.parse(Buffer.concat(chunks).toString('utf8')) : {});
+        } catch {
+          reject(new MintError('Invalid JSON body', 0));
+        }
+      });
+      req.on('error', reject);
+    });
+  }
+
+  private send(res: ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+}
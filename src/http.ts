@@ -0,0 +1,178 @@
+import { IncomingMessage, ServerResponse, createServer } from 'http';
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+export const HTTP_TOKEN_ENV = 'MCP_HTTP_TOKEN';
+export const MCP_PATH = '/mcp';
+
+export interface HttpToken {
+  token: string;
+  // Shown in logs instead of the token itself
+  name?: string;
+  // Tools this token may call; all but approve_payment when omitted
+  tools?: string[];
+}
+
+export interface HttpConfig {
+  tokens?: HttpToken[];
+}
+
+export interface HttpServeOptions {
+  port: number;
+  host: string;
+  tokens: HttpToken[];
+}
+
+/**
+ * One client's MCP server. Each HTTP session gets its own, all sharing
+ * the same wallet.
+ */
+export interface McpSession {
+  connect(transport: Transport): Promise<void>;
+  close(): Promise<void>;
+}
+
+interface OpenSession {
+  token: HttpToken;
+  transport: StreamableHTTPServerTransport;
+  session: McpSession;
+}
+
+const MAX_BODY_SIZE = 1024 * 1024;
+const MIN_TOKEN_LENGTH = 16;
+
+const digest = (value: string) => createHash('sha256').update(value).digest();
+
+/**
+ * Finds the token presented in an `Authorization: Bearer` header,
+ * comparing in constant time.
+ */
+export function authenticate(header: string | undefined, tokens: HttpToken[]): HttpToken | undefined {
+  const match = /^Bearer\s+(.+)$/i.exec(header || '');
+  if (!match) return undefined;
+
+  const presented = digest(match[1].trim());
+  return tokens.find((token) => timingSafeEqual(digest(token.token), presented));
+}
+
+export function tokenLabel(token: HttpToken): string {
+  return token.name || `token ${token.token.slice(0, 4)}...`;
+}
+
+function readBody(req: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_SIZE) {
+        reject(new Error('Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(chunks.length ? JSON.parse(Buffer.concat(chunks).toString('utf8')) : undefined);
+      } catch {
+        reject(new Error('Request body is not valid JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+function sendError(res: ServerResponse, status: number, message: string, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code: -32000, message }, id: null }));
+}
+
+/**
+ * Serves MCP over Streamable HTTP at `/mcp`. Every request needs one of
+ * the bearer tokens, and a session can only be used with the token that
+ * opened it.
+ */
+export async function serveHttp(options: HttpServeOptions, createSession: (token: HttpToken) => McpSession): Promise<void> {
+  if (options.tokens.length === 0) {
+    throw new Error(`No HTTP tokens configured. Add "http": { "tokens": [...] } to the wallet file or set ${HTTP_TOKEN_ENV}`);
+  }
+  for (const token of options.tokens) {
+    if (typeof token.token !== 'string' || token.token.length < MIN_TOKEN_LENGTH) {
+      throw new Error(`${token.name ? `HTTP token ${token.name}` : 'An HTTP token'} is shorter than ${MIN_TOKEN_LENGTH} characters`);
+    }
+  }
+
+  const sessions = new Map<string, OpenSession>();
+
+  const handle = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const path = new URL(req.url || '/', 'http://localhost').pathname;
+    if (path !== MCP_PATH) {
+      sendError(res, 404, `Not found; the MCP endpoint is ${MCP_PATH}`);
+      return;
+    }
+
+    const token = authenticate(req.headers.authorization, options.tokens);
+    if (!token) {
+      sendError(res, 401, 'Missing or invalid bearer token', { 'WWW-Authenticate': 'Bearer' });
+      return;
+    }
+
+    const body = req.method === 'POST' ? await readBody(req) : undefined;
+    const sessionId = req.headers['mcp-session-id'];
+    const open = typeof sessionId === 'string' ? sessions.get(sessionId) : undefined;
+
+    if (open) {
+      if (open.token !== token) {
+        sendError(res, 403, 'Session belongs to a different token');
+        return;
+      }
+      await open.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (sessionId) {
+      sendError(res, 404, 'Unknown session');
+      return;
+    }
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendError(res, 400, 'Send an initialize request to start a session');
+      return;
+    }
+
+    const session = createSession(token);
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, { token, transport, session });
+        console.error(`HTTP session ${id} opened for ${tokenLabel(token)}`);
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId && sessions.delete(transport.sessionId)) {
+        console.error(`HTTP session ${transport.sessionId} closed`);
+      }
+      session.close().catch((error) => console.error('Failed to close session:', error));
+    };
+
+    await session.connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  const server = createServer((req, res) => {
+    handle(req, res).catch((error) => {
+      console.error('HTTP request failed:', error);
+      if (!res.headersSent) {
+        sendError(res, 400, error instanceof Error ? error.message : String(error));
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port, options.host, () => resolve());
+  });
+  console.error(`MCP server listening on http://${options.host}:${options.port}${MCP_PATH}`);
+}
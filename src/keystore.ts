@@ -0,0 +1,111 @@
+import { NDKPrivateKeySigner } from '@nostr-dev-kit/ndk';
+import { chmodSync, mkdirSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+
+export const PASSPHRASE_ENV = 'WALLET_PASSPHRASE';
+
+/**
+ * Raised when the wallet key cannot be unlocked. Unlike other load
+ * errors this must never fall back to creating a fresh wallet, which
+ * would overwrite the encrypted key.
+ */
+export class PassphraseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PassphraseError';
+  }
+}
+
+/**
+ * Encrypts an nsec with a passphrase as a NIP-49 ncryptsec.
+ */
+export function encryptNsec(nsec: string, passphrase: string): string {
+  if (!passphrase) throw new PassphraseError('Passphrase must not be empty');
+  return new NDKPrivateKeySigner(nsec).encryptToNcryptsec(passphrase);
+}
+
+export function decryptNcryptsec(ncryptsec: string, passphrase: string): string {
+  try {
+    return NDKPrivateKeySigner.fromNcryptsec(ncryptsec, passphrase).nsec;
+  } catch {
+    throw new PassphraseError('Wrong passphrase or corrupted ncryptsec');
+  }
+}
+
+/**
+ * Reads a passphrase from the terminal without echoing it. Only works
+ * when stdin is a TTY; in MCP server mode stdin carries the protocol,
+ * so the passphrase has to come from the environment instead.
+ */
+export function promptPassphrase(question: string): Promise<string> {
+  const stdin = process.stdin;
+  if (!stdin.isTTY) {
+    return Promise.reject(new PassphraseError(`Wallet is encrypted: set ${PASSPHRASE_ENV} to unlock it`));
+  }
+
+  return new Promise((resolve, reject) => {
+    let value = '';
+    const finish = () => {
+      stdin.removeListener('data', onData);
+      stdin.setRawMode(false);
+      stdin.pause();
+      process.stderr.write('\n');
+    };
+    const onData = (chunk: string) => {
+      for (const char of chunk) {
+        if (char === '\r' || char === '\n') {
+          finish();
+          resolve(value);
+          return;
+        }
+        if (char === '\u0003') {
+          finish();
+          reject(new PassphraseError('Passphrase entry cancelled'));
+          return;
+        }
+        value = char === '\u007f' || char === '\b' ? value.slice(0, -1) : value + char;
+      }
+    };
+
+    process.stderr.write(question);
+    stdin.setEncoding('utf8');
+    stdin.setRawMode(true);
+    stdin.resume();
+    stdin.on('data', onData);
+  });
+}
+
+/**
+ * Asks for a new passphrase twice and makes sure both entries match.
+ */
+export async function promptNewPassphrase(): Promise<string> {
+  const passphrase = await promptPassphrase('New passphrase: ');
+  if (!passphrase) throw new PassphraseError('Passphrase must not be empty');
+  if (await promptPassphrase('Repeat passphrase: ') !== passphrase) {
+    throw new PassphraseError('Passphrases do not match');
+  }
+  return passphrase;
+}
+
+/**
+ * Returns the passphrase from the environment, prompting for it if it
+ * is not set.
+ */
+export async function resolvePassphrase(): Promise<string> {
+  return process.env[PASSPHRASE_ENV] || promptPassphrase('Wallet passphrase: ');
+}
+
+/**
+ * Writes a file readable only by the current user. The mode passed to
+ * writeFileSync only applies when the file is created, so files left
+ * over from older versions are tightened with chmod as well.
+ */
+export function writePrivateFile(file: string, content: string): void {
+  mkdirSync(dirname(file), { recursive: true, mode: 0o700 });
+  writeFileSync(file, content, { mode: 0o600 });
+  try {
+    chmodSync(file, 0o600);
+  } catch (error) {
+    console.error(`Failed to restrict permissions on ${file}:`, error);
+  }
+}
@@ -0,0 +1,172 @@
+import { appendFileSync, existsSync, readFileSync } from 'fs';
+import { WalletError } from './errors';
+
+export type TransactionType = 'deposit' | 'melt' | 'zap' | 'send' | 'receive' | 'fee';
+export type TransactionStatus = 'pending' | 'completed' | 'failed';
+
+export const TRANSACTION_TYPES: TransactionType[] = ['deposit', 'melt', 'zap', 'send', 'receive', 'fee'];
+
+export interface LedgerEntry {
+  id: string;
+  timestamp: number;
+  type: TransactionType;
+  status: TransactionStatus;
+  amount: number;
+  mint?: string;
+  counterparty?: string;
+  description?: string;
+  reference?: string;
+}
+
+export interface LedgerFilter {
+  since?: number;
+  until?: number;
+  type?: TransactionType;
+  counterparty?: string;
+  limit?: number;
+}
+
+export type LedgerEntryInput = Omit<LedgerEntry, 'id' | 'timestamp'> & { id?: string };
+
+/**
+ * Append-only transaction log stored as one JSON entry per line.
+ *
+ * Entries are never rewritten: a status change is recorded by appending
+ * the entry again under the same id, and readers keep the latest line
+ * for each id.
+ */
+export class Ledger {
+  constructor(private file: string, private onRecord?: (entry: LedgerEntry) => void) {}
+
+  record(input: LedgerEntryInput): LedgerEntry {
+    const entry: LedgerEntry = {
+      ...input,
+      id: input.id || `tx_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      timestamp: Date.now(),
+    };
+
+    try {
+      appendFileSync(this.file, JSON.stringify(entry) + '\n', { mode: 0o600 });
+    } catch (error) {
+      console.error('Failed to write ledger entry:', error);
+    }
+    this.onRecord?.(entry);
+    return entry;
+  }
+
+  /**
+   * Appends a new status for an existing entry, keeping its other fields.
+   */
+  update(id: string, changes: Partial<LedgerEntryInput>): LedgerEntry | undefined {
+    const existing = this.entries().find((e) => e.id === id);
+    if (!existing) return undefined;
+
+    const { timestamp: _timestamp, ...rest } = existing;
+    return this.record({ ...rest, ...changes, id });
+  }
+
+  entries(): LedgerEntry[] {
+    if (!existsSync(this.file)) return [];
+
+    const latest = new Map<string, LedgerEntry>();
+    for (const line of readFileSync(this.file, 'utf8').split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const entry: LedgerEntry = JSON.parse(line);
+        const previous = latest.get(entry.id);
+        // Keep the time the transaction started, not the last status change
+        latest.set(entry.id, previous ? { ...entry, timestamp: previous.timestamp } : entry);
+      } catch {
+        console.error('Skipping malformed ledger line');
+      }
+    }
+    return Array.from(latest.values());
+  }
+
+  list(filter: LedgerFilter = {}): LedgerEntry[] {
+    const counterparty = filter.counterparty?.toLowerCase();
+    const entries = this.entries()
+      .filter((e) => filter.since === undefined || e.timestamp >= filter.since)
+      .filter((e) => filter.until === undefined || e.timestamp <= filter.until)
+      .filter((e) => !filter.type || e.type === filter.type)
+      .filter((e) => !counterparty || (e.counterparty || '').toLowerCase().includes(counterparty))
+      .sort((a, b) => b.timestamp - a.timestamp);
+
+    return filter.limit ? entries.slice(0, filter.limit) : entries;
+  }
+}
+
+const CSV_COLUMNS: Array<keyof LedgerEntry> = [
+  'id', 'timestamp', 'type', 'status', 'amount', 'mint', 'counterparty', 'description', 'reference'
+];
+
+function csvField(value: unknown): string {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function exportTransactions(entries: LedgerEntry[], format: 'csv' | 'json'): string {
+  const rows = entries.map((e) => ({ ...e, timestamp: new Date(e.timestamp).toISOString() }));
+
+  if (format === 'json') {
+    return JSON.stringify(rows, null, 2);
+  }
+
+  const lines = [CSV_COLUMNS.join(',')];
+  for (const row of rows) {
+    lines.push(CSV_COLUMNS.map((column) => csvField(row[column])).join(','));
+  }
+  return lines.join('\n');
+}
+
+export function formatTransaction(entry: LedgerEntry): string {
+  const sign = entry.type === 'deposit' || entry.type === 'receive' ? '+' : '-';
+  const parts = [
+    new Date(entry.timestamp).toISOString(),
+    entry.type,
+    `${sign}${entry.amount} sats`,
+    entry.status,
+  ];
+  if (entry.counterparty) parts.push(`counterparty: ${entry.counterparty}`);
+  if (entry.mint) parts.push(`mint: ${entry.mint}`);
+  return parts.join(' | ');
+}
+
+/**
+ * Parses a date filter given either as a unix timestamp (seconds) or as
+ * anything Date.parse understands, returning milliseconds.
+ */
+export function parseDateFilter(value: string | number | undefined): number | undefined {
+  if (value === undefined || value === '') return undefined;
+  if (typeof value === 'number' || /^\d+$/.test(value)) {
+    return Number(value) * 1000;
+  }
+
+  const parsed = Date.parse(value);
+  if (isNaN(parsed)) {
+    throw new WalletError('INVALID_ARGUMENT', `Invalid date: ${value}`);
+  }
+  return parsed;
+}
+
+/**
+ * Builds a LedgerFilter from loosely typed tool or CLI arguments.
+ */
+export function parseLedgerFilter(args: Record<string, any>): LedgerFilter {
+  if (args.type && !TRANSACTION_TYPES.includes(args.type)) {
+    throw new WalletError('INVALID_ARGUMENT', `Invalid transaction type: ${args.type}. Expected one of ${TRANSACTION_TYPES.join(', ')}`);
+  }
+
+  const limit = args.limit !== undefined ? Number(args.limit) : undefined;
+  if (limit !== undefined && (!Number.isInteger(limit) || limit <= 0)) {
+    throw new WalletError('INVALID_ARGUMENT', `Invalid limit: ${args.limit}`);
+  }
+
+  return {
+    since: parseDateFilter(args.since),
+    until: parseDateFilter(args.until),
+    type: args.type,
+    counterparty: args.counterparty,
+    limit,
+  };
+}
@@ -0,0 +1,141 @@
+import { bech32 } from '@scure/base';
+import { createHash } from 'crypto';
+import { decodeInvoice } from './bolt11';
+import { WalletError, errorMessage } from './errors';
+
+/**
+ * The payRequest returned by an LNURL-pay endpoint (LUD-06), with the
+ * LUD-12 comment length. Amounts are in msat.
+ */
+export interface LnurlPayParams {
+  callback: string;
+  minSendable: number;
+  maxSendable: number;
+  metadata: string;
+  commentAllowed?: number;
+}
+
+export interface LnurlInvoice {
+  bolt11: string;
+  params: LnurlPayParams;
+  successAction?: Record<string, any>;
+}
+
+const REQUEST_TIMEOUT = 10 * 1000;
+
+// LUD-16 allows only these characters in the username
+const LIGHTNING_ADDRESS = /^[a-z0-9\-_.+]+@[a-z0-9\-.]+\.[a-z0-9\-]+(:\d+)?$/i;
+
+function stripScheme(target: string): string {
+  return target.trim().replace(/^lightning:/i, '');
+}
+
+export function isLightningAddress(target: string): boolean {
+  return LIGHTNING_ADDRESS.test(stripScheme(target));
+}
+
+export function isLnurl(target: string): boolean {
+  return stripScheme(target).toLowerCase().startsWith('lnurl1');
+}
+
+/**
+ * Returns the URL to fetch pay parameters from for a Lightning address
+ * (LUD-16) or a bech32 `lnurl1...` string (LUD-06).
+ */
+export function lnurlPayUrl(target: string): string {
+  const value = stripScheme(target);
+
+  if (isLightningAddress(value)) {
+    const [username, domain] = value.toLowerCase().split('@');
+    const scheme = domain.endsWith('.onion') ? 'http' : 'https';
+    return `${scheme}://${domain}/.well-known/lnurlp/${username}`;
+  }
+
+  if (isLnurl(value)) {
+    try {
+      const { words } = bech32.decode(value.toLowerCase() as `${string}1${string}`, 2000);
+      return new TextDecoder().decode(bech32.fromWords(words));
+    } catch {
+      throw new WalletError('INVALID_ARGUMENT', `Invalid LNURL: ${value}`);
+    }
+  }
+
+  throw new WalletError('INVALID_ARGUMENT', `Not a Lightning address or LNURL: ${target}`);
+}
+
+async function getJson(url: string): Promise<any> {
+  let response: Response;
+  try {
+    response = await fetch(url, { signal: AbortSignal.timeout(REQUEST_TIMEOUT) });
+  } catch (error) {
+    throw new WalletError('RECIPIENT_UNRESOLVABLE', `Could not reach ${new URL(url).host}: ${errorMessage(error)}`);
+  }
+  const body = await response.json().catch(() => undefined);
+
+  // LNURL services report failures as { status: 'ERROR', reason }
+  if (body?.status === 'ERROR') {
+    throw new WalletError('RECIPIENT_UNRESOLVABLE', `LNURL service error: ${body.reason || 'unknown reason'}`);
+  }
+  if (!response.ok || !body) {
+    throw new WalletError('RECIPIENT_UNRESOLVABLE', `${new URL(url).host} returned HTTP ${response.status}`);
+  }
+  return body;
+}
+
+export async function fetchLnurlPayParams(target: string): Promise<LnurlPayParams> {
+  const params = await getJson(lnurlPayUrl(target));
+  if (params.tag !== 'payRequest' || !params.callback || typeof params.metadata !== 'string') {
+    throw new WalletError('RECIPIENT_UNRESOLVABLE', `${target} is not an LNURL-pay endpoint`);
+  }
+
+  return {
+    callback: params.callback,
+    minSendable: Number(params.minSendable),
+    maxSendable: Number(params.maxSendable),
+    metadata: params.metadata,
+    commentAllowed: params.commentAllowed !== undefined ? Number(params.commentAllowed) : undefined,
+  };
+}
+
+/**
+ * Fetches an invoice for `amount` sats from a Lightning address or
+ * LNURL, checking the sendable limits and comment length first and the
+ * invoice's amount and description hash afterwards.
+ */
+export async function fetchLnurlInvoice(target: string, amount: number, comment = ''): Promise<LnurlInvoice> {
+  const params = await fetchLnurlPayParams(target);
+  const amountMsat = amount * 1000;
+
+  if (amountMsat < params.minSendable || amountMsat > params.maxSendable) {
+    throw new WalletError(
+      'INVALID_ARGUMENT',
+      `${target} accepts between ${Math.ceil(params.minSendable / 1000)} and ${Math.floor(params.maxSendable / 1000)} sats, not ${amount}`
+    );
+  }
+  if (comment && !params.commentAllowed) {
+    throw new WalletError('INVALID_ARGUMENT', `${target} does not accept comments`);
+  }
+  if (comment && params.commentAllowed && comment.length > params.commentAllowed) {
+    throw new WalletError('INVALID_ARGUMENT', `Comment is too long: ${target} accepts at most ${params.commentAllowed} characters`);
+  }
+
+  const callback = new URL(params.callback);
+  callback.searchParams.set('amount', String(amountMsat));
+  if (comment) callback.searchParams.set('comment', comment);
+
+  const result = await getJson(callback.toString());
+  if (typeof result.pr !== 'string') {
+    throw new WalletError('RECIPIENT_UNRESOLVABLE', `${target} did not return an invoice`);
+  }
+
+  const invoice = decodeInvoice(result.pr);
+  if (invoice.amountMsat !== amountMsat) {
+    throw new WalletError('PAYMENT_FAILED', `Invoice from ${target} is for ${invoice.amountMsat ?? 'no'} msat instead of ${amountMsat} msat`);
+  }
+  const metadataHash = createHash('sha256').update(params.metadata, 'utf8').digest('hex');
+  if (invoice.descriptionHash !== metadataHash) {
+    throw new WalletError('PAYMENT_FAILED', `Invoice from ${target} does not commit to the service's metadata (description hash mismatch)`);
+  }
+
+  return { bolt11: result.pr, params, successAction: result.successAction };
+}
@@ -0,0 +1,266 @@
+import { Event, Filter, kinds, matchFilter, verifyEvent } from 'nostr-tools';
+
+type Listener = (event: any) => void;
+
+export interface PublishResult {
+  accepted: boolean;
+  message: string;
+}
+
+/**
+ * A NIP-01 relay that keeps its events in memory. Replaceable and
+ * addressable events replace older versions, ephemeral events are only
+ * passed on to subscribers, and deletions (NIP-09) remove the author's
+ * events.
+ */
+export class MemoryRelay {
+  private events = new Map<string, Event>();
+  private deleted = new Set<string>();
+  private subscriptions = new Map<MemoryWebSocket, Map<string, Filter[]>>();
+
+  constructor(readonly url: string) {}
+
+  /**
+   * Stores an event as if a client had published it and sends it to
+   * every matching subscription.
+   */
+  publish(event: Event): PublishResult {
+    if (!event || typeof event !== 'object' || !verifyEvent(event)) {
+      return { accepted: false, message: 'invalid: bad event id or signature' };
+    }
+    if (this.events.has(event.id)) {
+      return { accepted: true, message: 'duplicate: already have this event' };
+    }
+    if (this.deleted.has(event.id)) {
+      return { accepted: false, message: 'blocked: event was deleted' };
+    }
+
+    if (kinds.isReplaceableKind(event.kind) || kinds.isAddressableKind(event.kind)) {
+      const key = replaceableKey(event);
+      const existing = Array.from(this.events.values()).find((stored) => replaceableKey(stored) === key);
+      if (existing && !isNewer(event, existing)) {
+        return { accepted: true, message: 'duplicate: have a newer version' };
+      }
+      if (existing) this.events.delete(existing.id);
+    }
+
+    if (event.kind === kinds.EventDeletion) {
+      this.applyDeletion(event);
+    }
+    if (!kinds.isEphemeralKind(event.kind)) {
+      this.events.set(event.id, event);
+    }
+
+    for (const [socket, subscriptions] of this.subscriptions) {
+      for (const [id, filters] of subscriptions) {
+        if (filters.some((filter) => matchFilter(filter, event))) {
+          socket.deliver(['EVENT', id, event]);
+        }
+      }
+    }
+    return { accepted: true, message: '' };
+  }
+
+  /**
+   * Returns the stored events matching any of the filters, newest first,
+   * with each filter's limit applied.
+   */
+  query(filters: Filter[]): Event[] {
+    const newestFirst = Array.from(this.events.values()).sort((a, b) => b.created_at - a.created_at);
+    const results = new Map<string, Event>();
+    for (const filter of filters) {
+      const matches = newestFirst.filter((event) => matchFilter(filter, event));
+      for (const event of matches.slice(0, filter.limit ?? matches.length)) {
+        results.set(event.id, event);
+      }
+    }
+    return Array.from(results.values()).sort((a, b) => b.created_at - a.created_at);
+  }
+
+  connect(socket: MemoryWebSocket): void {
+    this.subscriptions.set(socket, new Map());
+  }
+
+  disconnect(socket: MemoryWebSocket): void {
+    this.subscriptions.delete(socket);
+  }
+
+  receive(socket: MemoryWebSocket, data: string): void {
+    let message: any[];
+    try {
+      message = JSON.parse(data);
+    } catch {
+      socket.deliver(['NOTICE', 'error: could not parse message']);
+      return;
+    }
+
+    const subscriptions = this.subscriptions.get(socket);
+    if (!Array.isArray(message) || !subscriptions) return;
+
+    switch (message[0]) {
+      case 'EVENT':
+        const result = this.publish(message[1]);
+        socket.deliver(['OK', message[1]?.id, result.accepted, result.message]);
+        break;
+
+      case 'REQ':
+        const [, subscriptionId, ...filters] = message;
+        subscriptions.set(subscriptionId, filters);
+        for (const event of this.query(filters)) {
+          socket.deliver(['EVENT', subscriptionId, event]);
+        }
+        socket.deliver(['EOSE', subscriptionId]);
+        break;
+
+      case 'CLOSE':
+        subscriptions.delete(message[1]);
+        break;
+
+      default:
+        socket.deliver(['NOTICE', `error: unsupported message ${message[0]}`]);
+    }
+  }
+
+  private applyDeletion(deletion: Event): void {
+    for (const [name, value] of deletion.tags) {
+      for (const event of Array.from(this.events.values())) {
+        if (event.pubkey !== deletion.pubkey) continue;
+        const matches = name === 'e'
+          ? event.id === value
+          : name === 'a' && replaceableKey(event) === value && event.created_at <= deletion.created_at;
+        if (matches) {
+          this.events.delete(event.id);
+          this.deleted.add(event.id);
+        }
+      }
+      if (name === 'e') this.deleted.add(value);
+    }
+  }
+}
+
+// kind:pubkey:d-tag, the same form as an `a` tag
+function replaceableKey(event: Event): string {
+  const d = kinds.isAddressableKind(event.kind) ? event.tags.find((tag) => tag[0] === 'd')?.[1] || '' : '';
+  return `${event.kind}:${event.pubkey}:${d}`;
+}
+
+// NIP-01: the latest one wins, and the lowest id on a tie
+function isNewer(event: Event, than: Event): boolean {
+  return event.created_at > than.created_at || (event.created_at === than.created_at && event.id < than.id);
+}
+
+/**
+ * The part of the WebSocket API NDK and nostr-tools use, connected to a
+ * MemoryRelay instead of the network. Messages are delivered on a later
+ * tick, as they would be over a socket.
+ */
+export class MemoryWebSocket {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSING = 2;
+  static readonly CLOSED = 3;
+
+  readonly CONNECTING = 0;
+  readonly OPEN = 1;
+  readonly CLOSING = 2;
+  readonly CLOSED = 3;
+
+  readyState = MemoryWebSocket.CONNECTING;
+  onopen: Listener | null = null;
+  onmessage: Listener | null = null;
+  onclose: Listener | null = null;
+  onerror: Listener | null = null;
+  private listeners = new Map<string, Set<Listener>>();
+
+  constructor(private relay: MemoryRelay, readonly url: string) {
+    setTimeout(() => {
+      if (this.readyState !== MemoryWebSocket.CONNECTING) return;
+      this.readyState = MemoryWebSocket.OPEN;
+      this.relay.connect(this);
+      this.emit('open', { type: 'open' });
+    });
+  }
+
+  send(data: string): void {
+    if (this.readyState !== MemoryWebSocket.OPEN) {
+      throw new Error(`WebSocket to ${this.url} is not open`);
+    }
+    this.relay.receive(this, String(data));
+  }
+
+  close(code = 1000, reason = ''): void {
+    if (this.readyState === MemoryWebSocket.CLOSED) return;
+    this.readyState = MemoryWebSocket.CLOSED;
+    this.relay.disconnect(this);
+    setTimeout(() => this.emit('close', { type: 'close', code, reason, wasClean: true }));
+  }
+
+  deliver(message: unknown[]): void {
+    const data = JSON.stringify(message);
+    setTimeout(() => {
+      if (this.readyState === MemoryWebSocket.OPEN) this.emit('message', { type: 'message', data });
+    });
+  }
+
+  addEventListener(type: string, listener: Listener): void {
+    if (!this.listeners.has(type)) this.listeners.set(type, new Set());
+    this.listeners.get(type)!.add(listener);
+  }
+
+  removeEventListener(type: string, listener: Listener): void {
+    this.listeners.get(type)?.delete(listener);
+  }
+
+  private emit(type: 'open' | 'message' | 'close' | 'error', event: any): void {
+    const handler = { open: this.onopen, message: this.onmessage, close: this.onclose, error: this.onerror }[type];
+    handler?.(event);
+    for (const listener of this.listeners.get(type) || []) listener(event);
+  }
+}
+
+/**
+ * Any number of in-memory relays, one per URL, created on first use.
+ */
+export class MemoryRelayNetwork {
+  private relays = new Map<string, MemoryRelay>();
+
+  relay(url: string): MemoryRelay {
+    const key = relayKey(url);
+    let relay = this.relays.get(key);
+    if (!relay) {
+      relay = new MemoryRelay(key);
+      this.relays.set(key, relay);
+    }
+    return relay;
+  }
+
+  /**
+   * Stores an event on every relay of the network, e.g. a profile the
+   * wallet should find wherever it looks.
+   */
+  publish(event: Event): void {
+    for (const relay of this.relays.values()) relay.publish(event);
+  }
+
+  /**
+   * A WebSocket constructor whose connections go to this network's
+   * relays, to install as the global WebSocket.
+   */
+  webSocketClass(): typeof MemoryWebSocket {
+    const network = this;
+    return class extends MemoryWebSocket {
+      constructor(url: string | URL) {
+        const value = String(url);
+        if (!/^wss?:\/\//i.test(value)) {
+          throw new SyntaxError(`Invalid WebSocket URL: ${value}`);
+        }
+        super(network.relay(value), value);
+      }
+    } as unknown as typeof MemoryWebSocket;
+  }
+}
+
+// wss://relay.example and wss://relay.example/ are the same relay
+function relayKey(url: string): string {
+  return new URL(url).href.toLowerCase();
+}
@@ -0,0 +1,165 @@
+import { WalletError, errorMessage } from './errors';
+
+/**
+ * Mint metadata as returned by a mint's `/v1/info` endpoint (NUT-06).
+ */
+export interface MintInfo {
+  name?: string;
+  pubkey?: string;
+  version?: string;
+  description?: string;
+  description_long?: string;
+  contact?: Array<{ method: string; info: string }>;
+  motd?: string;
+  nuts?: Record<string, any>;
+}
+
+export interface CachedMintInfo {
+  info: MintInfo;
+  timestamp: number;
+}
+
+export interface MintKeyset {
+  id: string;
+  unit: string;
+  active: boolean;
+}
+
+export interface MintHealth {
+  mint: string;
+  reachable: boolean;
+  latencyMs?: number;
+  name?: string;
+  version?: string;
+  activeKeysets: number;
+  units: string[];
+  missingNuts: string[];
+  compatible: boolean;
+  error?: string;
+  info?: MintInfo;
+}
+
+// Minting, melting, token state checks, P2PK (for nutzaps) and DLEQ proofs
+export const REQUIRED_NUTS = ['4', '5', '7', '11', '12'];
+
+const PROBE_TIMEOUT = 10 * 1000;
+
+/**
+ * Returns the required NUTs a mint does not advertise. NUT-04 and NUT-05
+ * list methods and may be disabled; the others have a `supported` flag.
+ */
+export function missingNuts(info: MintInfo): string[] {
+  const nuts = info.nuts || {};
+  return REQUIRED_NUTS.filter((nut) => {
+    const entry = nuts[nut];
+    if (!entry) return true;
+    if (nut === '4' || nut === '5') {
+      return entry.disabled === true || !Array.isArray(entry.methods) || entry.methods.length === 0;
+    }
+    return entry.supported !== true;
+  });
+}
+
+/**
+ * Whether a mint can pay part of a bolt11 invoice (NUT-15) in `unit`.
+ */
+export function supportsMultiPath(info: MintInfo, unit = 'sat'): boolean {
+  const methods = info.nuts?.['15']?.methods;
+  return Array.isArray(methods) && methods.some((entry: any) => entry?.method === 'bolt11' && entry?.unit === unit);
+}
+
+async function fetchJson(url: string): Promise<any> {
+  let response: Response;
+  try {
+    response = await fetch(url, { signal: AbortSignal.timeout(PROBE_TIMEOUT) });
+  } catch (error) {
+    throw new WalletError('MINT_UNREACHABLE', `Could not reach ${url}: ${errorMessage(error)}`);
+  }
+  if (!response.ok) {
+    throw new WalletError('MINT_UNREACHABLE', `${url} returned HTTP ${response.status}`);
+  }
+  return response.json();
+}
+
+export async function fetchMintInfo(mintUrl: string): Promise<MintInfo> {
+  return fetchJson(`${mintUrl.replace(/\/+$/, '')}/v1/info`);
+}
+
+export async function fetchKeysets(mintUrl: string): Promise<MintKeyset[]> {
+  const { keysets } = await fetchJson(`${mintUrl.replace(/\/+$/, '')}/v1/keysets`);
+  return keysets || [];
+}
+
+/**
+ * Checks that a mint is reachable, has an active sat keyset and supports
+ * every NUT the wallet relies on. Never throws; problems are reported in
+ * the result.
+ */
+export async function probeMint(mintUrl: string): Promise<MintHealth> {
+  const health: MintHealth = {
+    mint: mintUrl,
+    reachable: false,
+    activeKeysets: 0,
+    units: [],
+    missingNuts: [],
+    compatible: false,
+  };
+
+  const started = Date.now();
+  try {
+    health.info = await fetchMintInfo(mintUrl);
+    health.latencyMs = Date.now() - started;
+    health.reachable = true;
+    health.name = health.info.name;
+    health.version = health.info.version;
+    health.missingNuts = missingNuts(health.info);
+
+    const active = (await fetchKeysets(mintUrl)).filter((keyset) => keyset.active);
+    health.activeKeysets = active.length;
+    health.units = Array.from(new Set(active.map((keyset) => keyset.unit)));
+
+    if (!health.units.includes('sat')) {
+      health.error = 'Mint has no active sat keyset';
+    } else if (health.missingNuts.length > 0) {
+      health.error = `Mint does not support required NUTs: ${health.missingNuts.join(', ')}`;
+    }
+    health.compatible = !health.error;
+  } catch (error) {
+    health.error = error instanceof Error ? error.message : String(error);
+  }
+
+  return health;
+}
+
+export function formatMintInfo(mintUrl: string, info: MintInfo): string {
+  const lines = [`${info.name || 'Unnamed mint'} (${mintUrl})`];
+  if (info.version) lines.push(`Version: ${info.version}`);
+  if (info.description) lines.push(`Description: ${info.description}`);
+  if (info.motd) lines.push(`MOTD: ${info.motd}`);
+  for (const contact of info.contact || []) {
+    lines.push(`Contact: ${contact.method} ${contact.info}`);
+  }
+
+  const supported = Object.entries(info.nuts || {})
+    .filter(([, entry]) => entry?.disabled !== true && entry?.supported !== false)
+    .map(([nut]) => nut)
+    .sort((a, b) => Number(a) - Number(b));
+  lines.push(`Supported NUTs: ${supported.join(', ') || 'none'}`);
+  return lines.join('\n');
+}
+
+export function formatMintHealth(health: MintHealth): string {
+  if (!health.reachable) {
+    return `${health.mint} | unreachable | ${health.error}`;
+  }
+
+  const parts = [
+    health.mint,
+    health.compatible ? 'ok' : 'incompatible',
+    `${health.latencyMs}ms`,
+    `${health.activeKeysets} active keysets (${health.units.join(', ') || 'none'})`,
+  ];
+  if (health.name) parts.splice(1, 0, health.name);
+  if (health.error) parts.push(health.error);
+  return parts.join(' | ');
+}
@@ -0,0 +1,159 @@
+import { MeltQuoteResponse } from '@cashu/cashu-ts';
+import { NDKCashuWallet } from '@nostr-dev-kit/ndk-wallet';
+import { WalletError, errorCode } from './errors';
+import { PaymentPart, PaymentPartResult } from './payments';
+import { meltFromMint } from './transfer';
+
+export interface MintFeeEstimate {
+  mint: string;
+  // Largest share the mint can pay with its fee reserve on top
+  capacity: number;
+  // Fee reserve per sat, taken from a quote for the mint's full share
+  feeRate: number;
+}
+
+export interface QuotedPart extends PaymentPart {
+  meltQuote: MeltQuoteResponse;
+}
+
+export interface MultiPathQuote {
+  parts: QuotedPart[];
+}
+
+export interface MultiPathResult {
+  preimage?: string;
+  parts: PaymentPartResult[];
+}
+
+// Plans are redone with smaller shares if a mint's fee reserve does not fit
+const MAX_QUOTE_ATTEMPTS = 3;
+
+/**
+ * Splits `amount` over the mints with the cheapest fee rate first,
+ * filling each before moving to the next. Keeping the number of parts
+ * low also keeps the per-part minimum fees down.
+ */
+export function planMultiPath(amount: number, estimates: MintFeeEstimate[]): Array<{ mint: string; amount: number }> {
+  const ordered = estimates
+    .filter((estimate) => estimate.capacity > 0)
+    .sort((a, b) => a.feeRate - b.feeRate || b.capacity - a.capacity);
+
+  const parts: Array<{ mint: string; amount: number }> = [];
+  let remaining = amount;
+  for (const estimate of ordered) {
+    if (remaining <= 0) break;
+    const share = Math.min(remaining, estimate.capacity);
+    parts.push({ mint: estimate.mint, amount: share });
+    remaining -= share;
+  }
+
+  if (remaining > 0) {
+    throw new WalletError(
+      'INSUFFICIENT_FUNDS',
+      `Mints supporting multi-path payments (NUT-15) can cover only ${amount - remaining} of ${amount} sats after fee reserves`
+    );
+  }
+  return parts;
+}
+
+async function estimateFees(
+  wallet: NDKCashuWallet,
+  bolt11: string,
+  amount: number,
+  mints: string[]
+): Promise<MintFeeEstimate[]> {
+  const balances = wallet.mintBalances;
+  const estimates = await Promise.all(mints.map(async (mint) => {
+    const share = Math.min(balances[mint] || 0, amount);
+    if (share <= 0) return undefined;
+
+    try {
+      const cashuWallet = await wallet.getCashuWallet(mint);
+      const probe = await cashuWallet.createMultiPathMeltQuote(bolt11, share * 1000);
+      const feeRate = probe.fee_reserve / share;
+      return { mint, feeRate, capacity: Math.min(share, Math.floor(balances[mint] / (1 + feeRate))) };
+    } catch (error) {
+      console.error(`Failed to get multi-path melt quote from ${mint}:`, error);
+      return undefined;
+    }
+  }));
+  return estimates.filter((estimate): estimate is MintFeeEstimate => !!estimate);
+}
+
+/**
+ * Plans and quotes a NUT-15 payment of the invoice across `mints`,
+ * shrinking a mint's share when its actual fee reserve does not fit its
+ * balance.
+ */
+export async function quoteMultiPath(
+  wallet: NDKCashuWallet,
+  bolt11: string,
+  amountMsat: number,
+  mints: string[]
+): Promise<MultiPathQuote> {
+  const amount = Math.ceil(amountMsat / 1000);
+  const balances = wallet.mintBalances;
+  const estimates = await estimateFees(wallet, bolt11, amount, mints);
+
+  for (let attempt = 0; attempt < MAX_QUOTE_ATTEMPTS; attempt++) {
+    const plan = planMultiPath(amount, estimates);
+    const parts = await Promise.all(plan.map(async (part, index) => {
+      // The last part drops whatever msat the whole-sat shares round up
+      const partMsat = index === plan.length - 1 ? amountMsat - (amount - part.amount) * 1000 : part.amount * 1000;
+      const cashuWallet = await wallet.getCashuWallet(part.mint);
+      const meltQuote = await cashuWallet.createMultiPathMeltQuote(bolt11, partMsat);
+      return { mint: part.mint, amount: meltQuote.amount, feeReserve: meltQuote.fee_reserve, meltQuote };
+    }));
+
+    const overdrawn = parts.filter((part) => part.amount + part.feeReserve > (balances[part.mint] || 0));
+    if (overdrawn.length === 0) return { parts };
+
+    for (const part of overdrawn) {
+      const estimate = estimates.find((e) => e.mint === part.mint)!;
+      estimate.capacity = Math.min(estimate.capacity - 1, (balances[part.mint] || 0) - part.feeReserve);
+    }
+  }
+
+  throw new WalletError('INSUFFICIENT_FUNDS', 'Could not fit the fee reserves of a multi-path payment within the mint balances');
+}
+
+/**
+ * Melts every part at once. The receiver only settles when the full
+ * amount has arrived, so the parts have to be in flight together.
+ */
+export async function payMultiPath(wallet: NDKCashuWallet, quote: MultiPathQuote): Promise<MultiPathResult> {
+  const outcomes = await Promise.allSettled(
+    quote.parts.map((part) => meltFromMint(wallet, part.mint, part.meltQuote))
+  );
+
+  let preimage: string | undefined;
+  const parts = quote.parts.map(({ meltQuote, ...part }, index): PaymentPartResult => {
+    const outcome = outcomes[index];
+    if (outcome.status === 'rejected') {
+      const error = outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason);
+      const pending = errorCode(outcome.reason) === 'PAYMENT_PENDING' || undefined;
+      return { ...part, paid: false, pending, fee: 0, error };
+    }
+    preimage = preimage || outcome.value.preimage;
+    return { ...part, paid: true, fee: outcome.value.fee };
+  });
+
+  return { preimage, parts };
+}
+
+/**
+ * Explains how the balance is spread when no single mint can pay an
+ * invoice and the mints cannot share it.
+ */
+export function describeBalanceSplit(amount: number, balances: Record<string, number>, multiPathMints: string[]): string {
+  const spread = Object.entries(balances)
+    .filter(([, balance]) => balance > 0)
+    .sort((a, b) => b[1] - a[1])
+    .map(([mint, balance]) => `${mint}: ${balance} sats${multiPathMints.includes(mint) ? ' (NUT-15)' : ' (no NUT-15)'}`);
+
+  return [
+    `No single mint holds ${amount} sats plus fees and the balance cannot be combined into one payment.`,
+    `Balances: ${spread.join(', ') || 'none'}.`,
+    'Move funds onto one mint with rebalance, or use mints that support multi-path payments (NUT-15).',
+  ].join(' ');
+}
@@ -0,0 +1,137 @@
+import NDK, { NDKCashuMintList, NDKNutzap, NDKNutzapState, NDKUser, NdkNutzapStatus, NostrEvent } from '@nostr-dev-kit/ndk';
+import { NDKNutzapMonitor, NDKNutzapMonitorStore } from '@nostr-dev-kit/ndk-wallet';
+import { nip19 } from 'nostr-tools';
+
+/**
+ * An incoming NIP-61 nutzap as stored under `nutzaps` in `.wallet.json`.
+ */
+export interface IncomingZapRecord {
+  id: string;
+  sender: string;
+  amount: number;
+  mint: string;
+  comment?: string;
+  eventId?: string;
+  status: NdkNutzapStatus;
+  createdAt: number;
+  updatedAt: number;
+  redeemedAmount?: number;
+  error?: string;
+  event: NostrEvent;
+}
+
+/**
+ * Persists the nutzap monitor's state in WalletData so nutzaps that were
+ * already redeemed or rejected are not processed again after a restart.
+ */
+export class NutzapStore implements NDKNutzapMonitorStore {
+  constructor(
+    private ndk: NDK,
+    private records: Record<string, IncomingZapRecord>,
+    private onChange: (record: IncomingZapRecord, previousStatus?: NdkNutzapStatus) => void
+  ) {}
+
+  async getAllNutzaps(): Promise<Map<string, NDKNutzapState>> {
+    const states = new Map<string, NDKNutzapState>();
+    for (const record of Object.values(this.records)) {
+      states.set(record.id, {
+        status: record.status,
+        nutzap: new NDKNutzap(this.ndk, record.event),
+        redeemedAmount: record.redeemedAmount,
+        errorMessage: record.error,
+      });
+    }
+    return states;
+  }
+
+  async setNutzapState(id: string, stateChange: Partial<NDKNutzapState>): Promise<void> {
+    let record = this.records[id];
+    const previousStatus = record?.status;
+
+    if (!record) {
+      // Without the nutzap itself there is nothing useful to show for it
+      const nutzap = stateChange.nutzap;
+      if (!nutzap) return;
+
+      record = {
+        id,
+        sender: nutzap.pubkey,
+        amount: nutzap.amount,
+        mint: nutzap.mint,
+        comment: nutzap.comment || undefined,
+        eventId: nutzap.tagValue('e'),
+        status: NdkNutzapStatus.INITIAL,
+        createdAt: (nutzap.created_at || Math.floor(Date.now() / 1000)) * 1000,
+        updatedAt: Date.now(),
+        event: nutzap.rawEvent() as NostrEvent,
+      };
+      this.records[id] = record;
+    }
+
+    if (stateChange.status) record.status = stateChange.status;
+    if (stateChange.redeemedAmount !== undefined) record.redeemedAmount = stateChange.redeemedAmount;
+    if (stateChange.errorMessage) record.error = stateChange.errorMessage;
+    record.updatedAt = Date.now();
+
+    this.onChange(record, previousStatus);
+  }
+
+  list(status?: NdkNutzapStatus): IncomingZapRecord[] {
+    return Object.values(this.records)
+      .filter((record) => !status || record.status === status)
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+}
+
+/**
+ * Nutzap monitor that refuses to redeem nutzaps failing `validate`, for
+ * example ones issued by a mint that is not on our mint list.
+ */
+export class WalletNutzapMonitor extends NDKNutzapMonitor {
+  constructor(
+    ndk: NDK,
+    user: NDKUser,
+    opts: { mintList?: NDKCashuMintList; store?: NDKNutzapMonitorStore },
+    private validate: (nutzap: NDKNutzap) => string | undefined
+  ) {
+    super(ndk, user, opts);
+  }
+
+  shouldTryRedeem(nutzap: NDKNutzap): boolean {
+    if (!super.shouldTryRedeem(nutzap)) return false;
+
+    const reason = this.validate(nutzap);
+    if (reason) {
+      this.reject(nutzap, reason);
+      return false;
+    }
+    return true;
+  }
+
+  async redeemNutzap(nutzap: NDKNutzap): Promise<NDKNutzapState> {
+    const reason = this.validate(nutzap);
+    if (reason) {
+      return this.reject(nutzap, reason);
+    }
+    return super.redeemNutzap(nutzap);
+  }
+
+  private reject(nutzap: NDKNutzap, reason: string): NDKNutzapState {
+    const state: NDKNutzapState = { status: NdkNutzapStatus.INVALID_NUTZAP, nutzap, errorMessage: reason };
+    this.nutzapStates.set(nutzap.id, state);
+    this.store?.setNutzapState(nutzap.id, state);
+    return state;
+  }
+}
+
+export function formatIncomingZap(record: IncomingZapRecord): string {
+  const parts = [
+    new Date(record.createdAt).toISOString(),
+    `${record.redeemedAmount ?? record.amount} sats from ${nip19.npubEncode(record.sender)}`,
+    record.status,
+  ];
+  if (record.comment) parts.push(`"${record.comment}"`);
+  if (record.eventId) parts.push(`for ${/^[0-9a-f]{64}$/i.test(record.eventId) ? nip19.noteEncode(record.eventId) : record.eventId}`);
+  if (record.error) parts.push(record.error);
+  return parts.join(' | ');
+}
@@ -0,0 +1,428 @@
+import NDK, { NDKEvent, NDKKind, NDKPrivateKeySigner, NDKSubscription } from '@nostr-dev-kit/ndk';
+import { randomBytes } from 'crypto';
+import { decodeInvoice } from './bolt11';
+import { LedgerEntry } from './ledger';
+
+export const NWC_METHODS = ['pay_invoice', 'make_invoice', 'get_balance', 'lookup_invoice', 'list_transactions', 'get_info'] as const;
+export type NwcMethod = typeof NWC_METHODS[number];
+
+export type NwcBudgetPeriod = 'daily' | 'weekly' | 'monthly' | 'yearly' | 'never';
+
+export type NwcErrorCode =
+  | 'RATE_LIMITED'
+  | 'NOT_IMPLEMENTED'
+  | 'INSUFFICIENT_BALANCE'
+  | 'QUOTA_EXCEEDED'
+  | 'RESTRICTED'
+  | 'UNAUTHORIZED'
+  | 'INTERNAL'
+  | 'OTHER'
+  | 'PAYMENT_FAILED'
+  // Not in NIP-47: the payment may still settle, so the app must not retry it
+  | 'PAYMENT_PENDING'
+  | 'NOT_FOUND';
+
+export interface NwcBudget {
+  // Sats, including Lightning fees
+  amount: number;
+  period: NwcBudgetPeriod;
+}
+
+/**
+ * A client allowed to use the wallet over NWC, as stored under
+ * `nwc.connections` in the wallet file. Only the client's pubkey is
+ * kept; its secret is shown once, in the connection string.
+ */
+export interface NwcConnection {
+  id: string;
+  name: string;
+  pubkey: string;
+  permissions: NwcMethod[];
+  budget?: NwcBudget;
+  payments: Array<{ amount: number; timestamp: number }>;
+  createdAt: number;
+  expiresAt?: number;
+}
+
+export interface NwcConfig {
+  // Hex key the wallet service signs and encrypts with; not the identity key
+  serviceKey?: string;
+  connections?: Record<string, NwcConnection>;
+}
+
+/**
+ * A transaction in NIP-47's format. Amounts are in msat and times in
+ * seconds.
+ */
+export interface NwcTransaction {
+  type: 'incoming' | 'outgoing';
+  state: 'pending' | 'settled' | 'failed' | 'expired';
+  invoice?: string;
+  description?: string;
+  payment_hash?: string;
+  preimage?: string;
+  amount: number;
+  fees_paid: number;
+  created_at: number;
+  expires_at?: number;
+  settled_at?: number;
+}
+
+export interface NwcListParams {
+  from?: number;
+  until?: number;
+  limit?: number;
+  offset?: number;
+  unpaid?: boolean;
+  type?: 'incoming' | 'outgoing';
+}
+
+/**
+ * What the service needs from the wallet. Amounts are in msat.
+ */
+export interface NwcBackend {
+  payInvoice(invoice: string): Promise<{ preimage: string; feesPaid: number }>;
+  makeInvoice(amount: number, description?: string): Promise<NwcTransaction>;
+  getBalance(): Promise<number>;
+  lookupInvoice(params: { payment_hash?: string; invoice?: string }): Promise<NwcTransaction | undefined>;
+  listTransactions(params: NwcListParams): Promise<NwcTransaction[]>;
+}
+
+export class NwcError extends Error {
+  readonly code: NwcErrorCode;
+
+  constructor(code: NwcErrorCode, message: string) {
+    super(message);
+    this.name = 'NwcError';
+    this.code = code;
+  }
+}
+
+const PERIOD_MS: Record<Exclude<NwcBudgetPeriod, 'never'>, number> = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+  monthly: 30 * 24 * 60 * 60 * 1000,
+  yearly: 365 * 24 * 60 * 60 * 1000,
+};
+
+// Requests published shortly before the service started are still answered
+const REQUEST_LOOKBACK = 60;
+const MAX_REMEMBERED_REQUESTS = 1000;
+
+/**
+ * Sats the connection may still spend. Budgets are rolling windows;
+ * a `never` budget is a lifetime total. Undefined means no budget.
+ */
+export function budgetRemaining(connection: NwcConnection, now = Date.now()): number | undefined {
+  if (!connection.budget) return undefined;
+
+  const { amount, period } = connection.budget;
+  const since = period === 'never' ? 0 : now - PERIOD_MS[period];
+  const spent = connection.payments
+    .filter((payment) => payment.timestamp >= since)
+    .reduce((sum, payment) => sum + payment.amount, 0);
+  return Math.max(0, amount - spent);
+}
+
+/**
+ * Forgets payments that no longer count against the connection's budget,
+ * so the list does not grow with every payment. A lifetime (`never`)
+ * budget needs them all.
+ */
+function prunePayments(connection: NwcConnection, now: number): void {
+  if (connection.budget?.period === 'never') return;
+
+  const since = connection.budget ? now - PERIOD_MS[connection.budget.period] : now;
+  connection.payments = connection.payments.filter((payment) => payment.timestamp >= since);
+}
+
+export function createNwcConnection(options: {
+  name: string;
+  permissions?: NwcMethod[];
+  budget?: NwcBudget;
+  expiresAt?: number;
+}): { connection: NwcConnection; secret: string } {
+  const permissions = options.permissions || [...NWC_METHODS];
+  for (const permission of permissions) {
+    if (!NWC_METHODS.includes(permission)) {
+      throw new Error(`Unknown NWC method: ${permission}. Use ${NWC_METHODS.join(', ')}`);
+    }
+  }
+  if (options.budget && (!Number.isInteger(options.budget.amount) || options.budget.amount <= 0)) {
+    throw new Error(`Invalid budget: ${options.budget.amount}`);
+  }
+  if (options.budget && !['daily', 'weekly', 'monthly', 'yearly', 'never'].includes(options.budget.period)) {
+    throw new Error(`Invalid budget period: ${options.budget.period}. Use daily, weekly, monthly, yearly or never`);
+  }
+
+  const secret = randomBytes(32).toString('hex');
+  const connection: NwcConnection = {
+    id: `nwc_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    name: options.name,
+    pubkey: new NDKPrivateKeySigner(secret).pubkey,
+    permissions,
+    budget: options.budget,
+    payments: [],
+    createdAt: Date.now(),
+    expiresAt: options.expiresAt,
+  };
+  return { connection, secret };
+}
+
+export function connectionUri(servicePubkey: string, relays: string[], secret: string): string {
+  const params = relays.map((relay) => `relay=${encodeURIComponent(relay)}`);
+  params.push(`secret=${secret}`);
+  return `nostr+walletconnect://${servicePubkey}?${params.join('&')}`;
+}
+
+/**
+ * Maps ledger entries to NIP-47 transactions. Fees are folded into the
+ * payment they belong to rather than listed on their own.
+ */
+export function ledgerToNwcTransactions(entries: LedgerEntry[]): NwcTransaction[] {
+  const fees = new Map<string, number>();
+  for (const entry of entries) {
+    if (entry.type === 'fee' && entry.reference) {
+      fees.set(entry.reference, (fees.get(entry.reference) || 0) + entry.amount);
+    }
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const transactions: NwcTransaction[] = [];
+  for (const entry of entries) {
+    if (entry.type === 'fee') continue;
+
+    const incoming = entry.type === 'deposit' || entry.type === 'receive';
+    const transaction: NwcTransaction = {
+      type: incoming ? 'incoming' : 'outgoing',
+      state: entry.status === 'completed' ? 'settled' : entry.status === 'failed' ? 'failed' : 'pending',
+      description: entry.description,
+      amount: entry.amount * 1000,
+      fees_paid: (entry.reference ? fees.get(entry.reference) || 0 : 0) * 1000,
+      created_at: Math.floor(entry.timestamp / 1000),
+    };
+
+    // Deposits reference their invoice, Lightning payments the payment hash
+    if (entry.reference?.toLowerCase().startsWith('ln')) {
+      try {
+        const invoice = decodeInvoice(entry.reference);
+        transaction.invoice = entry.reference;
+        transaction.payment_hash = invoice.paymentHash;
+        transaction.description = transaction.description || invoice.description;
+        transaction.expires_at = invoice.expiresAt;
+      } catch {
+        // Not an invoice after all
+      }
+    } else if (entry.reference && /^[0-9a-f]{64}$/i.test(entry.reference)) {
+      transaction.payment_hash = entry.reference;
+    }
+
+    if (transaction.state === 'pending' && transaction.expires_at !== undefined && transaction.expires_at < now) {
+      transaction.state = 'expired';
+    }
+    transactions.push(transaction);
+  }
+  return transactions;
+}
+
+/**
+ * Applies list_transactions' filters. Unpaid invoices and payments are
+ * left out unless `unpaid` is set.
+ */
+export function selectNwcTransactions(transactions: NwcTransaction[], params: NwcListParams): NwcTransaction[] {
+  const selected = transactions
+    .filter((t) => params.from === undefined || t.created_at >= params.from)
+    .filter((t) => params.until === undefined || t.created_at <= params.until)
+    .filter((t) => !params.type || t.type === params.type)
+    .filter((t) => params.unpaid || t.state === 'settled');
+
+  const offset = params.offset || 0;
+  return selected.slice(offset, params.limit ? offset + params.limit : undefined);
+}
+
+export function formatNwcConnection(connection: NwcConnection): string {
+  const parts = [connection.id, connection.name, `methods: ${connection.permissions.join(', ')}`];
+  if (connection.budget) {
+    const remaining = budgetRemaining(connection);
+    parts.push(`budget: ${connection.budget.amount} sats ${connection.budget.period}, ${remaining} left`);
+  }
+  if (connection.expiresAt) {
+    parts.push(`expires ${new Date(connection.expiresAt).toISOString()}`);
+  }
+  return parts.join(' | ');
+}
+
+/**
+ * Answers NIP-47 requests from the configured connections on the
+ * wallet's relays. The connections object is shared with the wallet
+ * data, so revoking a connection takes effect right away; onChange is
+ * called when a connection's spending changes so it can be persisted.
+ */
+export class NwcService {
+  private signer: NDKPrivateKeySigner;
+  private subscription: NDKSubscription | null = null;
+  private handled = new Set<string>();
+
+  constructor(
+    private ndk: NDK,
+    serviceKey: string,
+    private connections: Record<string, NwcConnection>,
+    private backend: NwcBackend,
+    private onChange: () => void
+  ) {
+    this.signer = new NDKPrivateKeySigner(serviceKey);
+  }
+
+  get pubkey(): string {
+    return this.signer.pubkey;
+  }
+
+  async start(): Promise<void> {
+    // The info event tells clients which methods and encryption we support
+    const info = new NDKEvent(this.ndk, {
+      kind: NDKKind.NostrWaletConnectInfo,
+      content: NWC_METHODS.join(' '),
+      tags: [['encryption', 'nip44_v2 nip04']],
+    });
+    await info.sign(this.signer);
+    await info.publish();
+
+    this.subscription = this.ndk.subscribe(
+      {
+        kinds: [NDKKind.NostrWalletConnectReq],
+        '#p': [this.pubkey],
+        since: Math.floor(Date.now() / 1000) - REQUEST_LOOKBACK,
+      },
+      { closeOnEose: false }
+    );
+    this.subscription.on('event', (event: NDKEvent) => {
+      this.handle(event).catch((error) => console.error('Failed to handle NWC request:', error));
+    });
+  }
+
+  stop(): void {
+    this.subscription?.stop();
+    this.subscription = null;
+  }
+
+  private async handle(event: NDKEvent): Promise<void> {
+    if (!event.id || this.handled.has(event.id)) return;
+    this.handled.add(event.id);
+    if (this.handled.size > MAX_REMEMBERED_REQUESTS) {
+      this.handled.delete(this.handled.values().next().value as string);
+    }
+
+    const expiration = Number(event.tagValue('expiration'));
+    if (expiration && expiration < Date.now() / 1000) return;
+
+    // Requests from unknown keys are dropped without an answer
+    const connection = Object.values(this.connections).find((c) => c.pubkey === event.pubkey);
+    if (!connection) return;
+
+    const scheme = (event.tagValue('encryption') || '').includes('nip44') ? 'nip44' : 'nip04';
+    const client = this.ndk.getUser({ pubkey: event.pubkey });
+
+    let method = 'unknown';
+    let response: Record<string, any>;
+    try {
+      const request = JSON.parse(await this.signer.decrypt(client, event.content, scheme));
+      method = request.method;
+      response = { result_type: method, result: await this.dispatch(connection, method, request.params || {}) };
+    } catch (error) {
+      const code = error instanceof NwcError ? error.code : 'INTERNAL';
+      const message = error instanceof Error ? error.message : String(error);
+      response = { result_type: method, error: { code, message } };
+    }
+
+    const reply = new NDKEvent(this.ndk, {
+      kind: NDKKind.NostrWalletConnectRes,
+      content: await this.signer.encrypt(client, JSON.stringify(response), scheme),
+      tags: [['p', event.pubkey], ['e', event.id]],
+    });
+    await reply.sign(this.signer);
+    await reply.publish();
+  }
+
+  private async dispatch(connection: NwcConnection, method: string, params: any): Promise<any> {
+    if (connection.expiresAt && connection.expiresAt < Date.now()) {
+      throw new NwcError('UNAUTHORIZED', 'This connection has expired');
+    }
+    if (!NWC_METHODS.includes(method as NwcMethod)) {
+      throw new NwcError('NOT_IMPLEMENTED', `Unsupported method: ${method}`);
+    }
+    if (!connection.permissions.includes(method as NwcMethod)) {
+      throw new NwcError('RESTRICTED', `This connection may not use ${method}`);
+    }
+
+    switch (method as NwcMethod) {
+      case 'pay_invoice':
+        return this.payInvoice(connection, params);
+
+      case 'make_invoice':
+        if (!Number.isInteger(params.amount) || params.amount < 1000) {
+          throw new NwcError('OTHER', 'amount must be at least 1000 msat');
+        }
+        return this.backend.makeInvoice(params.amount, params.description);
+
+      case 'get_balance':
+        return { balance: await this.backend.getBalance() };
+
+      case 'lookup_invoice':
+        if (!params.payment_hash && !params.invoice) {
+          throw new NwcError('OTHER', 'payment_hash or invoice is required');
+        }
+        const transaction = await this.backend.lookupInvoice(params);
+        if (!transaction) {
+          throw new NwcError('NOT_FOUND', 'Invoice not found');
+        }
+        return transaction;
+
+      case 'list_transactions':
+        return { transactions: await this.backend.listTransactions(params) };
+
+      case 'get_info':
+        // No network: the mints decide which one invoices are paid on, and the wallet cannot tell
+        return { alias: 'mcp-money', pubkey: this.pubkey, methods: connection.permissions, notifications: [] };
+    }
+  }
+
+  private async payInvoice(connection: NwcConnection, params: any): Promise<{ preimage: string; fees_paid: number }> {
+    if (typeof params.invoice !== 'string') {
+      throw new NwcError('OTHER', 'invoice is required');
+    }
+
+    let amount: number | undefined;
+    try {
+      amount = decodeInvoice(params.invoice).amountSats;
+    } catch {
+      throw new NwcError('OTHER', 'invoice could not be decoded');
+    }
+    if (!amount) {
+      throw new NwcError('NOT_IMPLEMENTED', 'Invoices without an amount are not supported');
+    }
+
+    const now = Date.now();
+    const remaining = budgetRemaining(connection, now);
+    if (remaining !== undefined && amount > remaining) {
+      throw new NwcError('QUOTA_EXCEEDED', `Payment of ${amount} sats exceeds the remaining budget of ${remaining} sats`);
+    }
+
+    // Counted before paying, so requests arriving together cannot all fit in the same budget
+    prunePayments(connection, now);
+    const payment = { amount, timestamp: now };
+    connection.payments.push(payment);
+    try {
+      const { preimage, feesPaid } = await this.backend.payInvoice(params.invoice);
+      payment.amount = amount + Math.ceil(feesPaid / 1000);
+      return { preimage, fees_paid: feesPaid };
+    } catch (error) {
+      // A payment that may still settle stays charged, or the app could retry it on top
+      const pending = error instanceof NwcError && error.code === 'PAYMENT_PENDING';
+      const index = connection.payments.indexOf(payment);
+      if (!pending && index >= 0) connection.payments.splice(index, 1);
+      throw error;
+    } finally {
+      this.onChange();
+    }
+  }
+}
@@ -0,0 +1,109 @@
+import { DecodedInvoice } from './bolt11';
+
+/**
+ * One mint's share of a multi-path (NUT-15) payment.
+ */
+export interface PaymentPart {
+  mint: string;
+  amount: number;
+  feeReserve: number;
+}
+
+export interface PaymentPartResult extends PaymentPart {
+  paid: boolean;
+  // The mint has not said whether it paid its share
+  pending?: boolean;
+  fee: number;
+  error?: string;
+}
+
+/**
+ * What paying an invoice would cost, as returned by `quote_payment`.
+ * `mint` is the mint `pay` would melt from, or `parts` lists the mints
+ * when the invoice has to be split across several.
+ */
+export interface PaymentQuote {
+  amount: number;
+  paymentHash?: string;
+  description?: string;
+  payee?: string;
+  expiresAt?: number;
+  expired: boolean;
+  mint?: string;
+  mintBalance?: number;
+  feeReserve?: number;
+  totalRequired?: number;
+  parts?: PaymentPart[];
+  balance: number;
+  sufficient: boolean;
+  reason?: string;
+}
+
+/**
+ * Outcome of a Lightning payment. `change` is the part of the fee
+ * reserve the mint handed back because routing cost less.
+ */
+export interface PaymentResult {
+  success: boolean;
+  // Some of it may still be paid; see verify_wallet
+  pending?: boolean;
+  amount: number;
+  fee: number;
+  feeReserve?: number;
+  change?: number;
+  mint?: string;
+  preimage?: string;
+  paymentHash?: string;
+  parts?: PaymentPartResult[];
+}
+
+export function formatInvoice(invoice: DecodedInvoice): string {
+  const lines = [`Amount: ${invoice.amountSats !== undefined ? `${invoice.amountSats} sats` : 'any (no amount set)'}`];
+  if (invoice.description) lines.push(`Description: ${invoice.description}`);
+  if (invoice.descriptionHash) lines.push(`Description hash: ${invoice.descriptionHash}`);
+  if (invoice.payee) lines.push(`Payee: ${invoice.payee}`);
+  if (invoice.paymentHash) lines.push(`Payment hash: ${invoice.paymentHash}`);
+  if (invoice.expiresAt !== undefined) {
+    const expired = invoice.expiresAt * 1000 <= Date.now();
+    lines.push(`${expired ? 'Expired' : 'Expires'}: ${new Date(invoice.expiresAt * 1000).toISOString()}`);
+  }
+  return lines.join('\n');
+}
+
+export function formatPaymentQuote(quote: PaymentQuote): string {
+  const lines = [`Amount: ${quote.amount} sats`];
+  if (quote.description) lines.push(`Description: ${quote.description}`);
+  if (quote.payee) lines.push(`Payee: ${quote.payee}`);
+  if (quote.expiresAt !== undefined) {
+    lines.push(`${quote.expired ? 'Expired' : 'Expires'}: ${new Date(quote.expiresAt * 1000).toISOString()}`);
+  }
+  if (quote.mint) {
+    lines.push(`Mint: ${quote.mint} (balance ${quote.mintBalance} sats)`);
+    lines.push(`Fee reserve: ${quote.feeReserve} sats, ${quote.totalRequired} sats required in total`);
+  }
+  if (quote.parts) {
+    lines.push(`Split across ${quote.parts.length} mints (NUT-15):`);
+    for (const part of quote.parts) {
+      lines.push(`  ${part.mint}: ${part.amount} sats, fee reserve ${part.feeReserve} sats`);
+    }
+    lines.push(`Fee reserve: ${quote.feeReserve} sats, ${quote.totalRequired} sats required in total`);
+  }
+  lines.push(quote.sufficient ? 'Balance is sufficient' : `Cannot pay: ${quote.reason}`);
+  return lines.join('\n');
+}
+
+export function formatPaymentResult(result: PaymentResult): string {
+  if (!result.success) {
+    const failures = (result.parts || []).filter((part) => part.error).map((part) => `${part.mint}: ${part.error}`);
+    const outcome = result.pending ? 'is pending at the mint' : 'failed';
+    return [`Payment of ${result.amount} sats ${outcome}`, ...failures].join(' | ');
+  }
+
+  const parts = [`Paid ${result.amount} sats`, `fee ${result.fee} sats`];
+  if (result.change !== undefined) parts.push(`${result.change} sats of the fee reserve returned`);
+  if (result.mint) parts.push(`from ${result.mint}`);
+  if (result.parts) {
+    parts.push(`split across ${result.parts.map((part) => `${part.mint} (${part.amount} sats)`).join(', ')}`);
+  }
+  return parts.join(' | ');
+}
@@ -0,0 +1,229 @@
+import { nip19 } from 'nostr-tools';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+/**
+ * Spending limits stored under `policy` in `.wallet.json`. Every field is
+ * optional; a missing field means that rule is not enforced.
+ */
+export interface SpendingPolicy {
+  maxPerPayment?: number;
+  hourlyBudget?: number;
+  dailyBudget?: number;
+  allowedRecipients?: string[];
+  deniedRecipients?: string[];
+  approvalThreshold?: number;
+  approveNewRecipients?: boolean;
+  // Whether send_token may create bearer tokens at all; allowed unless false
+  allowSendToken?: boolean;
+}
+
+export interface SpendRecord {
+  amount: number;
+  recipient: string;
+  timestamp: number;
+}
+
+/**
+ * Sats set aside by a policy check for a payment that is still running,
+ * so payments made at the same time cannot all pass against the same
+ * remaining budget. Settled into the history as the payment succeeds,
+ * or released if it does not.
+ */
+export interface SpendReservation {
+  amount: number;
+  timestamp: number;
+}
+
+export type PolicyRule =
+  | 'max_per_payment'
+  | 'hourly_budget'
+  | 'daily_budget'
+  | 'recipient_denied'
+  | 'recipient_not_allowed'
+  | 'send_token_disabled';
+
+export interface BudgetRemaining {
+  perPayment?: number;
+  hourly?: number;
+  daily?: number;
+}
+
+export interface PolicyRejection {
+  rule: PolicyRule;
+  message: string;
+  amount: number;
+  recipient: string;
+  remaining: BudgetRemaining;
+}
+
+export class PolicyViolationError extends Error {
+  readonly rejection: PolicyRejection;
+
+  constructor(rejection: PolicyRejection) {
+    super(rejection.message);
+    this.name = 'PolicyViolationError';
+    this.rejection = rejection;
+  }
+}
+
+/**
+ * Normalizes a recipient identifier so that npubs, hex pubkeys and
+ * NIP-05 addresses can be compared regardless of how they were written.
+ */
+export function normalizeRecipient(recipient: string): string {
+  const value = recipient.trim().toLowerCase();
+  if (value.startsWith('npub')) {
+    try {
+      return nip19.decode(value).data as string;
+    } catch {
+      return value;
+    }
+  }
+  return value;
+}
+
+/**
+ * Enforces a SpendingPolicy against the history of payments made by
+ * this wallet. The history and known recipient arrays are shared with
+ * WalletData so that rolling budgets survive restarts.
+ */
+export class SpendingPolicyEngine {
+  // In memory only: a payment interrupted by a restart never settles its reservation
+  private reservations = new Set<SpendReservation>();
+
+  constructor(
+    private policy: SpendingPolicy,
+    private history: SpendRecord[],
+    private knownRecipients: string[] = []
+  ) {}
+
+  /**
+   * Throws a PolicyViolationError if paying `amount` sats to any of the
+   * identifiers in `recipients` would break the configured policy, and
+   * otherwise reserves the amount until it is settled or released. A
+   * payment made under a reservation already `held`, such as one leg of
+   * a zap, is checked as if that reservation were not there and reserves
+   * nothing more.
+   *
+   * `recipients` is null for a bearer token, which whoever holds it can
+   * redeem: the recipient lists cannot apply, so only `allowSendToken`,
+   * the amount limit and the budgets do.
+   */
+  check(amount: number, recipients: string[] | null, held?: SpendReservation): SpendReservation {
+    const ids = (recipients || []).filter(Boolean).map(normalizeRecipient);
+    const recipient = recipients ? ids[0] || 'unknown' : 'bearer token';
+    const remaining = this.remaining(held);
+    const reject = (rule: PolicyRule, message: string) => {
+      throw new PolicyViolationError({ rule, message, amount, recipient, remaining });
+    };
+
+    if (recipients) {
+      const denied = (this.policy.deniedRecipients || []).map(normalizeRecipient);
+      if (ids.some((id) => denied.includes(id))) {
+        reject('recipient_denied', `Recipient ${recipient} is on the deny list`);
+      }
+
+      const allowed = (this.policy.allowedRecipients || []).map(normalizeRecipient);
+      if (allowed.length > 0 && !ids.some((id) => allowed.includes(id))) {
+        reject('recipient_not_allowed', `Recipient ${recipient} is not on the allow list`);
+      }
+    } else if (this.policy.allowSendToken === false) {
+      reject('send_token_disabled', 'The spending policy does not allow sending bearer tokens');
+    }
+
+    if (remaining.perPayment !== undefined && amount > remaining.perPayment) {
+      reject('max_per_payment', `Payment of ${amount} sats exceeds the per-payment limit of ${remaining.perPayment} sats`);
+    }
+
+    if (remaining.hourly !== undefined && amount > remaining.hourly) {
+      reject('hourly_budget', `Payment of ${amount} sats exceeds the remaining hourly budget of ${remaining.hourly} sats`);
+    }
+
+    if (remaining.daily !== undefined && amount > remaining.daily) {
+      reject('daily_budget', `Payment of ${amount} sats exceeds the remaining daily budget of ${remaining.daily} sats`);
+    }
+
+    if (held) return held;
+    const reservation = { amount, timestamp: Date.now() };
+    this.reservations.add(reservation);
+    return reservation;
+  }
+
+  /**
+   * Returns why a payment needs human approval, or undefined if it can
+   * go ahead without one. A bearer token (null `recipients`) is never new
+   * to the wallet, so only the threshold applies to it.
+   */
+  approvalReason(amount: number, recipients: string[] | null): string | undefined {
+    const threshold = this.policy.approvalThreshold;
+    if (threshold !== undefined && amount > threshold) {
+      return `Amount is above the approval threshold of ${threshold} sats`;
+    }
+
+    if (recipients && this.policy.approveNewRecipients) {
+      const ids = recipients.filter(Boolean).map(normalizeRecipient);
+      if (!ids.some((id) => this.knownRecipients.includes(id))) {
+        return 'Recipient has never been paid by this wallet';
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Records `amount` sats of a reserved payment as spent, by default all
+   * of what is left of the reservation.
+   */
+  settle(reservation: SpendReservation, recipient: string, amount = reservation.amount): void {
+    reservation.amount = Math.max(0, reservation.amount - amount);
+    if (reservation.amount === 0) this.release(reservation);
+    this.record(amount, recipient);
+  }
+
+  // Gives back whatever of a reservation was not settled; safe to call more than once
+  release(reservation: SpendReservation): void {
+    this.reservations.delete(reservation);
+  }
+
+  record(amount: number, recipient: string): void {
+    const now = Date.now();
+    const id = normalizeRecipient(recipient);
+    this.history.push({ amount, recipient: id, timestamp: now });
+    if (id && !this.knownRecipients.includes(id)) {
+      this.knownRecipients.push(id);
+    }
+
+    // Nothing older than the longest window is ever needed again
+    const stale = this.history.filter((r) => now - r.timestamp >= DAY);
+    for (const record of stale) {
+      this.history.splice(this.history.indexOf(record), 1);
+    }
+  }
+
+  /**
+   * What is left of each limit, counting reserved payments as spent
+   * except for the one `excluded`.
+   */
+  remaining(excluded?: SpendReservation): BudgetRemaining {
+    const now = Date.now();
+    const reserved = [...this.reservations].filter((r) => r !== excluded);
+    const spentSince = (window: number) =>
+      [...this.history, ...reserved]
+        .filter((r) => now - r.timestamp < window)
+        .reduce((sum, r) => sum + r.amount, 0);
+
+    const remaining: BudgetRemaining = {};
+    if (this.policy.maxPerPayment !== undefined) {
+      remaining.perPayment = this.policy.maxPerPayment;
+    }
+    if (this.policy.hourlyBudget !== undefined) {
+      remaining.hourly = Math.max(0, this.policy.hourlyBudget - spentSince(HOUR));
+    }
+    if (this.policy.dailyBudget !== undefined) {
+      remaining.daily = Math.max(0, this.policy.dailyBudget - spentSince(DAY));
+    }
+    return remaining;
+  }
+}
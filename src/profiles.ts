@@ -0,0 +1,123 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import { basename, dirname, join } from 'path';
+
+export const WALLET_FILE_ENV = 'WALLET_FILE';
+export const PROFILE_ENV = 'WALLET_PROFILE';
+export const DEFAULT_PROFILE = 'default';
+
+// Where wallets lived before profiles existed; still used if present in the CWD
+const LEGACY_WALLET_FILE = '.wallet.json';
+
+export interface WalletLocation {
+  walletFile: string;
+  ledgerFile: string;
+  profile?: string;
+  legacy?: boolean;
+}
+
+export interface ProfileSummary {
+  name: string;
+  walletFile: string;
+  active: boolean;
+  npub?: string;
+}
+
+/**
+ * Returns the directory holding profiles, honouring XDG_CONFIG_HOME and
+ * APPDATA on Windows.
+ */
+export function configDir(): string {
+  const base = process.env.XDG_CONFIG_HOME
+    || (process.platform === 'win32' && process.env.APPDATA)
+    || join(homedir(), '.config');
+  return join(base, 'mcp-money');
+}
+
+function profilesDir(): string {
+  return join(configDir(), 'profiles');
+}
+
+function activeProfileFile(): string {
+  return join(configDir(), 'active-profile');
+}
+
+export function validateProfileName(name: string): void {
+  if (!/^[A-Za-z0-9_-]+$/.test(name)) {
+    throw new Error(`Invalid profile name: ${name}. Use letters, digits, "-" and "_"`);
+  }
+}
+
+export function profileWalletFile(name: string): string {
+  validateProfileName(name);
+  return join(profilesDir(), name, 'wallet.json');
+}
+
+/**
+ * The ledger lives next to its wallet file, e.g. `.wallet.json` keeps
+ * its transactions in `.wallet-ledger.jsonl`.
+ */
+export function ledgerFileFor(walletFile: string): string {
+  return join(dirname(walletFile), `${basename(walletFile).replace(/\.json$/, '')}-ledger.jsonl`);
+}
+
+export function profileExists(name: string): boolean {
+  return existsSync(profileWalletFile(name));
+}
+
+export function getActiveProfile(): string {
+  try {
+    return readFileSync(activeProfileFile(), 'utf8').trim() || DEFAULT_PROFILE;
+  } catch {
+    return DEFAULT_PROFILE;
+  }
+}
+
+export function setActiveProfile(name: string): void {
+  if (!profileExists(name)) {
+    throw new Error(`Profile ${name} does not exist; create it with create_profile ${name}`);
+  }
+  mkdirSync(configDir(), { recursive: true, mode: 0o700 });
+  writeFileSync(activeProfileFile(), name + '\n');
+}
+
+export function listProfiles(): ProfileSummary[] {
+  if (!existsSync(profilesDir())) return [];
+
+  const active = getActiveProfile();
+  return readdirSync(profilesDir(), { withFileTypes: true })
+    .filter((entry) => entry.isDirectory() && existsSync(profileWalletFile(entry.name)))
+    .map((entry) => {
+      const walletFile = profileWalletFile(entry.name);
+      let npub: string | undefined;
+      try {
+        npub = JSON.parse(readFileSync(walletFile, 'utf8')).npub || undefined;
+      } catch {
+        npub = undefined;
+      }
+      return { name: entry.name, walletFile, active: entry.name === active, npub };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Works out which wallet file to use. Priority: 1) --wallet-file,
+ * 2) WALLET_FILE env var, 3) --profile, 4) WALLET_PROFILE env var,
+ * 5) a legacy `.wallet.json` in the current directory, 6) the active
+ * profile under the config directory.
+ */
+export function resolveWalletLocation(options: { walletFile?: string; profile?: string }): WalletLocation {
+  const walletFile = options.walletFile || process.env[WALLET_FILE_ENV];
+  if (walletFile) {
+    return { walletFile, ledgerFile: ledgerFileFor(walletFile) };
+  }
+
+  const explicitProfile = options.profile || process.env[PROFILE_ENV];
+  if (!explicitProfile && existsSync(LEGACY_WALLET_FILE)) {
+    return { walletFile: LEGACY_WALLET_FILE, ledgerFile: ledgerFileFor(LEGACY_WALLET_FILE), legacy: true };
+  }
+
+  const profile = explicitProfile || getActiveProfile();
+  const profileFile = profileWalletFile(profile);
+  return { walletFile: profileFile, ledgerFile: ledgerFileFor(profileFile), profile };
+}
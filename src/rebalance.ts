@@ -0,0 +1,154 @@
+import { WalletError } from './errors';
+
+export interface RebalanceOptions {
+  // Percentage of the total each mint should hold; must add up to 100
+  targets?: Record<string, number>;
+  // Most sats each mint may hold; the excess moves to mints with room
+  caps?: Record<string, number>;
+  // Moves smaller than this are skipped, since fees would eat them
+  minTransfer?: number;
+}
+
+export interface RebalanceMove {
+  from: string;
+  to: string;
+  amount: number;
+}
+
+export interface RebalancePlan {
+  total: number;
+  current: Record<string, number>;
+  desired: Record<string, number>;
+  moves: RebalanceMove[];
+}
+
+export const DEFAULT_MIN_TRANSFER = 10;
+
+function checkMints(values: Record<string, number>, mints: string[], label: string): void {
+  for (const [mint, value] of Object.entries(values)) {
+    if (!mints.includes(mint)) {
+      throw new WalletError('INVALID_ARGUMENT', `${label} given for ${mint}, which is not a configured mint`);
+    }
+    if (typeof value !== 'number' || !isFinite(value) || value < 0) {
+      throw new WalletError('INVALID_ARGUMENT', `Invalid ${label.toLowerCase()} for ${mint}: ${value}`);
+    }
+  }
+}
+
+function desiredFromTargets(total: number, mints: string[], targets: Record<string, number>): Record<string, number> {
+  checkMints(targets, mints, 'Target');
+  const sum = Object.values(targets).reduce((a, b) => a + b, 0);
+  if (Math.abs(sum - 100) > 0.01) {
+    throw new WalletError('INVALID_ARGUMENT', `Target percentages must add up to 100, got ${sum}`);
+  }
+
+  const desired: Record<string, number> = {};
+  for (const mint of mints) {
+    desired[mint] = Math.floor(total * (targets[mint] || 0) / 100);
+  }
+
+  // Rounding leftovers go to the mint with the largest target
+  const largest = Object.keys(targets).sort((a, b) => targets[b] - targets[a])[0];
+  desired[largest] += total - Object.values(desired).reduce((a, b) => a + b, 0);
+  return desired;
+}
+
+function desiredFromCaps(current: Record<string, number>, mints: string[], caps: Record<string, number>): Record<string, number> {
+  checkMints(caps, mints, 'Cap');
+
+  const desired = { ...current };
+  let excess = 0;
+  for (const [mint, cap] of Object.entries(caps)) {
+    if (desired[mint] > cap) {
+      excess += desired[mint] - cap;
+      desired[mint] = cap;
+    }
+  }
+
+  // Spread the excess evenly over the mints that still have room
+  const room = (mint: string) => (caps[mint] !== undefined ? caps[mint] - desired[mint] : Infinity);
+  while (excess > 0) {
+    const open = mints.filter((mint) => room(mint) > 0);
+    if (open.length === 0) {
+      throw new WalletError('INVALID_ARGUMENT', `Caps leave no room for ${excess} sats; raise a cap or leave a mint uncapped`);
+    }
+
+    const share = Math.ceil(excess / open.length);
+    for (const mint of open) {
+      const amount = Math.min(share, room(mint), excess);
+      desired[mint] += amount;
+      excess -= amount;
+    }
+  }
+  return desired;
+}
+
+/**
+ * Works out which transfers bring the configured mints to the target
+ * split. With neither targets nor caps, funds are spread evenly.
+ */
+export function planRebalance(
+  balances: Record<string, number>,
+  mints: string[],
+  options: RebalanceOptions = {}
+): RebalancePlan {
+  if (mints.length === 0) throw new WalletError('NOT_FOUND', 'No mints configured');
+  if (options.targets && options.caps) {
+    throw new WalletError('INVALID_ARGUMENT', 'Give either target percentages or caps, not both');
+  }
+
+  const current: Record<string, number> = {};
+  for (const mint of mints) {
+    current[mint] = balances[mint] || 0;
+  }
+  const total = Object.values(current).reduce((a, b) => a + b, 0);
+
+  let desired: Record<string, number>;
+  if (options.targets) {
+    desired = desiredFromTargets(total, mints, options.targets);
+  } else if (options.caps) {
+    desired = desiredFromCaps(current, mints, options.caps);
+  } else {
+    const even = Object.fromEntries(mints.map((mint) => [mint, 100 / mints.length]));
+    desired = desiredFromTargets(total, mints, even);
+  }
+
+  const minTransfer = options.minTransfer ?? DEFAULT_MIN_TRANSFER;
+  const surplus = mints
+    .map((mint) => ({ mint, amount: current[mint] - desired[mint] }))
+    .filter((entry) => entry.amount > 0)
+    .sort((a, b) => b.amount - a.amount);
+  const deficit = mints
+    .map((mint) => ({ mint, amount: desired[mint] - current[mint] }))
+    .filter((entry) => entry.amount > 0)
+    .sort((a, b) => b.amount - a.amount);
+
+  const moves: RebalanceMove[] = [];
+  for (const source of surplus) {
+    for (const sink of deficit) {
+      const amount = Math.min(source.amount, sink.amount);
+      if (amount <= 0) continue;
+      source.amount -= amount;
+      sink.amount -= amount;
+      if (amount >= minTransfer) {
+        moves.push({ from: source.mint, to: sink.mint, amount });
+      }
+    }
+  }
+
+  return { total, current, desired, moves };
+}
+
+export function formatRebalancePlan(plan: RebalancePlan): string {
+  const lines = [`Total: ${plan.total} sats`];
+  for (const mint of Object.keys(plan.current)) {
+    lines.push(`${mint}: ${plan.current[mint]} -> ${plan.desired[mint]} sats`);
+  }
+  if (plan.moves.length === 0) {
+    lines.push('Nothing to move');
+  }
+  for (const move of plan.moves) {
+    lines.push(`Move ${move.amount} sats from ${move.from} to ${move.to}`);
+  }
+  return lines.join('\n');
+}
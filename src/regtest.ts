@@ -0,0 +1,324 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { createHash, randomBytes } from 'crypto';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { secp256k1 } from '@noble/curves/secp256k1';
+import { Event, finalizeEvent, generateSecretKey, getPublicKey, nip19, verifyEvent } from 'nostr-tools';
+import { encodeInvoice } from './bolt11';
+import { FakeMint } from './fakemint';
+import { MemoryRelayNetwork, MemoryWebSocket } from './memoryrelay';
+import { WalletLocation, ledgerFileFor } from './profiles';
+
+export interface RegtestOptions {
+  // Fake mints to start (default 2, so moving funds between mints can be tried)
+  mints?: number;
+  // In-memory relays (default 1)
+  relays?: number;
+}
+
+/**
+ * Someone with a profile on the regtest relays and a Lightning address
+ * served by the regtest LNURL service, to pay and zap.
+ */
+export interface RegtestRecipient {
+  name: string;
+  address: string;
+  secretKey: Uint8Array;
+  pubkey: string;
+  npub: string;
+}
+
+interface LnurlInvoice {
+  name: string;
+  amount: number;
+  preimage: string;
+  // The signed kind 9734 zap request, when the invoice is for a zap
+  zapRequest?: Event;
+}
+
+class LnurlError extends Error {}
+
+// BTC prices regtest wallets convert fiat amounts at, instead of asking a rate provider
+export const REGTEST_RATES: Record<string, number> = { usd: 100_000, eur: 90_000 };
+
+const LOOPBACK_HOSTS = ['127.0.0.1', 'localhost', '[::1]'];
+// Lightning addresses and NIP-05 names are on this host, which fetch maps to the LNURL service
+const SERVICE_HOST = 'pay.regtest';
+const MAX_SENDABLE = 100_000_000 * 1000;
+
+const sha256 = (data: string | Buffer) => createHash('sha256').update(data).digest();
+
+// What install() swaps out: the relays' WebSocket class only has the parts NDK uses
+type RegtestGlobals = Omit<typeof globalThis, 'WebSocket'> & { WebSocket: typeof WebSocket | typeof MemoryWebSocket };
+
+/**
+ * A Lightning network, mints and relays that live in this process:
+ * fake Cashu mints on loopback ports, in-memory Nostr relays and an
+ * LNURL-pay service that publishes zap receipts. Once installed,
+ * WebSocket connections go to the in-memory relays and fetch only
+ * reaches loopback addresses, so nothing leaves the machine.
+ */
+export class RegtestNetwork {
+  readonly relayNetwork = new MemoryRelayNetwork();
+  readonly relays: string[];
+  readonly mints: FakeMint[] = [];
+  private serviceKey = generateSecretKey();
+  private recipients = new Map<string, RegtestRecipient>();
+  private invoices = new Map<string, LnurlInvoice>();
+  private received = new Map<string, number>();
+  private server: Server | null = null;
+  private serviceUrl = '';
+  private uninstall: (() => void) | null = null;
+  private directories: string[] = [];
+
+  private constructor(options: RegtestOptions) {
+    this.relays = Array.from({ length: options.relays ?? 1 }, (_, i) => `wss://relay${i + 1}.regtest`);
+    for (const url of this.relays) this.relayNetwork.relay(url);
+  }
+
+  static async start(options: RegtestOptions = {}): Promise<RegtestNetwork> {
+    const network = new RegtestNetwork(options);
+    try {
+      for (let i = 0; i < (options.mints ?? 2); i++) {
+        const mint = new FakeMint({ name: `Regtest mint ${i + 1}`, onInvoicePaid: (bolt11) => network.settle(bolt11) });
+        await mint.start();
+        network.mints.push(mint);
+      }
+      await network.startService();
+    } catch (error) {
+      await network.stop();
+      throw error;
+    }
+    return network;
+  }
+
+  get mintUrls(): string[] {
+    return this.mints.map((mint) => mint.url);
+  }
+
+  // The domain of every regtest Lightning address
+  get domain(): string {
+    return SERVICE_HOST;
+  }
+
+  /**
+   * Routes WebSocket connections to the in-memory relays and fetches
+   * for the regtest domain to the LNURL service. Fetches to anything
+   * else but loopback addresses fail.
+   */
+  install(): void {
+    if (this.uninstall) return;
+
+    const globals = globalThis as RegtestGlobals;
+    const { WebSocket, fetch } = globals;
+    globals.WebSocket = this.relayNetwork.webSocketClass();
+    globals.fetch = (input: string | URL | Request, init?: RequestInit) => {
+      const url = new URL(input instanceof Request ? input.url : String(input));
+      if (url.hostname === SERVICE_HOST) {
+        const service = new URL(this.serviceUrl);
+        url.protocol = service.protocol;
+        url.host = service.host;
+      } else if (!LOOPBACK_HOSTS.includes(url.hostname)) {
+        return Promise.reject(new TypeError(`fetch failed: ${url.host} is not reachable in regtest mode`));
+      }
+      return fetch(input instanceof Request ? new Request(url, input) : url, init);
+    };
+
+    this.uninstall = () => {
+      globals.WebSocket = WebSocket;
+      globals.fetch = fetch;
+    };
+  }
+
+  /**
+   * Publishes a profile with a Lightning address and NIP-05 identifier
+   * on this network, so it can be paid, zapped or resolved by name.
+   */
+  createRecipient(name: string): RegtestRecipient {
+    const secretKey = generateSecretKey();
+    const pubkey = getPublicKey(secretKey);
+    const address = `${name.toLowerCase()}@${this.domain}`;
+    const recipient = { name: name.toLowerCase(), address, secretKey, pubkey, npub: nip19.npubEncode(pubkey) };
+
+    this.relayNetwork.publish(finalizeEvent({
+      kind: 0,
+      created_at: Math.floor(Date.now() / 1000),
+      tags: [],
+      content: JSON.stringify({ name, lud16: address, nip05: address })
+    }, secretKey));
+    this.recipients.set(recipient.name, recipient);
+    return recipient;
+  }
+
+  /**
+   * Sats paid so far to a recipient's Lightning address.
+   */
+  receivedBy(name: string): number {
+    return this.received.get(name.toLowerCase()) || 0;
+  }
+
+  /**
+   * A wallet file and ledger in a fresh temporary directory, removed
+   * again by stop() or removeWalletLocations().
+   */
+  createWalletLocation(): WalletLocation {
+    const directory = mkdtempSync(join(tmpdir(), 'mcp-money-regtest-'));
+    this.directories.push(directory);
+    const walletFile = join(directory, '.wallet.json');
+    return { walletFile, ledgerFile: ledgerFileFor(walletFile) };
+  }
+
+  async stop(): Promise<void> {
+    this.uninstall?.();
+    this.uninstall = null;
+    for (const mint of this.mints) await mint.stop();
+    const server = this.server;
+    if (server) {
+      this.server = null;
+      server.closeAllConnections();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+    this.removeWalletLocations();
+  }
+
+  removeWalletLocations(): void {
+    for (const directory of this.directories) rmSync(directory, { recursive: true, force: true });
+    this.directories = [];
+  }
+
+  /**
+   * Called by the fake mints when they pay an invoice. Invoices from the
+   * LNURL service are credited to their recipient and, for zaps, answered
+   * with a zap receipt (kind 9735) on the relays the zap request names.
+   */
+  private settle(bolt11: string): string | undefined {
+    const invoice = this.invoices.get(bolt11);
+    if (!invoice) return undefined;
+    this.invoices.delete(bolt11);
+    this.received.set(invoice.name, this.receivedBy(invoice.name) + invoice.amount);
+
+    const zapRequest = invoice.zapRequest;
+    if (zapRequest) {
+      const copied = zapRequest.tags.filter((tag) => ['p', 'e', 'a'].includes(tag[0]));
+      const receipt = finalizeEvent({
+        kind: 9735,
+        created_at: Math.floor(Date.now() / 1000),
+        tags: [
+          ...copied,
+          ['P', zapRequest.pubkey],
+          ['bolt11', bolt11],
+          ['description', JSON.stringify(zapRequest)],
+          ['preimage', invoice.preimage]
+        ],
+        content: ''
+      }, this.serviceKey);
+      const relays = zapRequest.tags.find((tag) => tag[0] === 'relays')?.slice(1) || this.relays;
+      for (const url of relays) this.relayNetwork.relay(url).publish(receipt);
+    }
+    return invoice.preimage;
+  }
+
+  private async startService(): Promise<void> {
+    const server = createServer((req, res) => this.handle(req, res));
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(0, '127.0.0.1', () => resolve());
+    });
+    const address = server.address() as AddressInfo;
+    this.server = server;
+    this.serviceUrl = `http://${address.address}:${address.port}`;
+  }
+
+  private handle(req: IncomingMessage, res: ServerResponse): void {
+    let status = 200;
+    let body: unknown;
+    try {
+      const url = new URL(req.url || '/', this.serviceUrl);
+      body = this.route(url);
+    } catch (error) {
+      status = error instanceof LnurlError ? 400 : 500;
+      body = { status: 'ERROR', reason: error instanceof Error ? error.message : String(error) };
+    }
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+
+  private route(url: URL): unknown {
+    const parts = url.pathname.split('/').filter(Boolean);
+
+    // NIP-05
+    if (url.pathname === '/.well-known/nostr.json') {
+      const recipient = this.recipients.get((url.searchParams.get('name') || '').toLowerCase());
+      return { names: recipient ? { [recipient.name]: recipient.pubkey } : {} };
+    }
+    // LUD-16
+    if (parts[0] === '.well-known' && parts[1] === 'lnurlp' && parts.length === 3) {
+      const recipient = this.recipient(parts[2]);
+      return {
+        tag: 'payRequest',
+        callback: `https://${SERVICE_HOST}/lnurlp/${recipient.name}/callback`,
+        minSendable: 1000,
+        maxSendable: MAX_SENDABLE,
+        metadata: this.metadata(recipient),
+        commentAllowed: 255,
+        allowsNostr: true,
+        nostrPubkey: getPublicKey(this.serviceKey)
+      };
+    }
+    if (parts[0] === 'lnurlp' && parts[2] === 'callback' && parts.length === 3) {
+      return this.callback(this.recipient(parts[1]), url.searchParams);
+    }
+    throw new LnurlError(`Not found: ${url.pathname}`);
+  }
+
+  private recipient(name: string): RegtestRecipient {
+    const recipient = this.recipients.get(name.toLowerCase());
+    if (!recipient) throw new LnurlError(`Unknown user ${name}`);
+    return recipient;
+  }
+
+  private metadata(recipient: RegtestRecipient): string {
+    return JSON.stringify([['text/plain', `Pay to ${recipient.name}`], ['text/identifier', recipient.address]]);
+  }
+
+  /**
+   * LUD-06 callback: issues an invoice committing to the metadata, or to
+   * the zap request for zaps (NIP-57).
+   */
+  private callback(recipient: RegtestRecipient, params: URLSearchParams): { pr: string; routes: [] } {
+    const amountMsat = Number(params.get('amount'));
+    if (!Number.isInteger(amountMsat) || amountMsat < 1000 || amountMsat > MAX_SENDABLE || amountMsat % 1000 !== 0) {
+      throw new LnurlError(`Invalid amount ${params.get('amount')}: whole sats between 1 and ${MAX_SENDABLE / 1000} only`);
+    }
+
+    let zapRequest: Event | undefined;
+    const nostr = params.get('nostr');
+    if (nostr) {
+      try {
+        zapRequest = JSON.parse(nostr);
+      } catch {
+        throw new LnurlError('Zap request is not valid JSON');
+      }
+      if (!zapRequest || zapRequest.kind !== 9734 || !verifyEvent(zapRequest)) {
+        throw new LnurlError('Invalid zap request');
+      }
+      const amountTag = zapRequest.tags.find((tag) => tag[0] === 'amount')?.[1];
+      if (amountTag && Number(amountTag) !== amountMsat) {
+        throw new LnurlError('Zap request amount does not match');
+      }
+    }
+
+    const preimage = randomBytes(32).toString('hex');
+    const bolt11 = encodeInvoice({
+      amountSats: amountMsat / 1000,
+      paymentHash: sha256(Buffer.from(preimage, 'hex')).toString('hex'),
+      nodeKey: secp256k1.utils.randomPrivateKey(),
+      descriptionHash: sha256(nostr || this.metadata(recipient)).toString('hex'),
+      expiry: 3600
+    });
+    this.invoices.set(bolt11, { name: recipient.name, amount: amountMsat / 1000, preimage, zapRequest });
+    return { pr: bolt11, routes: [] };
+  }
+}
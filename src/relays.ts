@@ -0,0 +1,111 @@
+import NDK, { NDKEvent, NDKRelayStatus, getRelayListForUser, normalizeRelayUrl } from '@nostr-dev-kit/ndk';
+import { WalletError } from './errors';
+
+/**
+ * Relays discovered for the user on startup. `readOnly` holds NIP-65
+ * relays marked `read`, which wallet events are not published to.
+ */
+export interface DiscoveredRelays {
+  relays: string[];
+  readOnly: string[];
+}
+
+export interface RelayStatus {
+  url: string;
+  connected: boolean;
+  status: string;
+  // Wallet and token events are published here
+  write: boolean;
+}
+
+/**
+ * Checks that a relay URL is a websocket URL and returns it normalized
+ * the way NDK keys its relay pool.
+ */
+export function normalizeRelay(url: string): string {
+  const value = url.trim();
+  if (!/^wss?:\/\//i.test(value)) {
+    throw new WalletError('INVALID_ARGUMENT', `Invalid relay URL: ${url}. Relay URLs start with wss:// or ws://`);
+  }
+  try {
+    // URL lowercases the host, which NDK's normalization does not
+    return normalizeRelayUrl(new URL(value).toString());
+  } catch {
+    throw new WalletError('INVALID_ARGUMENT', `Invalid relay URL: ${url}`);
+  }
+}
+
+export function sameRelay(a: string, b: string): boolean {
+  try {
+    return normalizeRelay(a) === normalizeRelay(b);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Merges relay lists, keeping the first spelling of each relay and
+ * dropping invalid URLs and the ones in `exclude`.
+ */
+export function mergeRelays(lists: string[][], exclude: string[] = []): string[] {
+  const merged: string[] = [];
+  for (const url of lists.flat()) {
+    try {
+      normalizeRelay(url);
+    } catch {
+      continue;
+    }
+    if (merged.some((relay) => sameRelay(relay, url)) || exclude.some((relay) => sameRelay(relay, url))) continue;
+    merged.push(url);
+  }
+  return merged;
+}
+
+/**
+ * Relays listed in a NIP-60 wallet event (kind 17375), from its
+ * encrypted content or, for older events, its public tags.
+ */
+export async function walletEventRelays(event: NDKEvent): Promise<string[]> {
+  const relays = event.getMatchingTags('relay').map((tag) => tag[1]);
+  try {
+    const copy = new NDKEvent(event.ndk, event.rawEvent());
+    await copy.decrypt();
+    const tags: string[][] = JSON.parse(copy.content);
+    relays.push(...tags.filter((tag) => tag[0] === 'relay').map((tag) => tag[1]));
+  } catch (error) {
+    console.error('Could not read relays from the wallet event:', error);
+  }
+  return mergeRelays([relays]);
+}
+
+/**
+ * Fetches the user's NIP-65 relay list (kind 10002).
+ */
+export async function discoverRelays(ndk: NDK, pubkey: string): Promise<DiscoveredRelays> {
+  try {
+    const list = await getRelayListForUser(pubkey, ndk);
+    if (!list) return { relays: [], readOnly: [] };
+    // readRelayUrls includes unmarked relays, which are used for both
+    return { relays: mergeRelays([list.relays]), readOnly: mergeRelays([list.readRelayUrls], list.writeRelayUrls) };
+  } catch (error) {
+    console.error('Could not fetch the NIP-65 relay list:', error);
+    return { relays: [], readOnly: [] };
+  }
+}
+
+export function relayStatus(ndk: NDK, url: string, write: boolean): RelayStatus {
+  const relay = ndk.pool.relays.get(normalizeRelay(url));
+  const status = relay ? relay.status : NDKRelayStatus.DISCONNECTED;
+  return {
+    url,
+    connected: status >= NDKRelayStatus.CONNECTED,
+    status: NDKRelayStatus[status].toLowerCase().replace(/_/g, ' '),
+    write,
+  };
+}
+
+export function formatRelayStatus(relay: RelayStatus): string {
+  const parts = [relay.url, relay.status];
+  if (!relay.write) parts.push('read only');
+  return parts.join(' | ');
+}
@@ -0,0 +1,96 @@
+export const BALANCE_URI = 'wallet://balance';
+export const MINTS_URI = 'wallet://mints';
+export const TRANSACTIONS_URI = 'wallet://transactions';
+export const MINT_INFO_TEMPLATE = 'wallet://mints/{url}/info';
+
+// wallet://transactions only carries the most recent entries
+export const RESOURCE_TRANSACTION_LIMIT = 100;
+
+export type WalletChange =
+  | { resource: 'balance' }
+  | { resource: 'mints' }
+  | { resource: 'transactions' }
+  | { resource: 'mint_info'; mint: string };
+
+export const WALLET_RESOURCES = [
+  {
+    uri: BALANCE_URI,
+    name: 'balance',
+    description: 'Total balance per unit and per mint, with its fiat value if a display currency is configured',
+    mimeType: 'application/json',
+  },
+  {
+    uri: MINTS_URI,
+    name: 'mints',
+    description: 'Configured mints with their names and balances',
+    mimeType: 'application/json',
+  },
+  {
+    uri: TRANSACTIONS_URI,
+    name: 'transactions',
+    description: `The ${RESOURCE_TRANSACTION_LIMIT} most recent ledger entries, newest first`,
+    mimeType: 'application/json',
+  },
+];
+
+export const WALLET_RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: MINT_INFO_TEMPLATE,
+    name: 'mint_info',
+    description: 'A mint\'s NUT-06 info; {url} is the URL-encoded mint URL',
+    mimeType: 'application/json',
+  },
+];
+
+export function mintInfoUri(mintUrl: string): string {
+  return `wallet://mints/${encodeURIComponent(mintUrl)}/info`;
+}
+
+/**
+ * Returns the mint URL of a `wallet://mints/{url}/info` URI.
+ */
+export function parseMintInfoUri(uri: string): string | undefined {
+  const match = /^wallet:\/\/mints\/([^/]+)\/info$/.exec(uri);
+  if (!match) return undefined;
+  try {
+    return decodeURIComponent(match[1]);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * The tool that returns the same data as a resource. A client may only
+ * read the resources whose tool it may call, so a token limited to some
+ * tools cannot see more through resources.
+ */
+export function resourceTool(uri: string): string | undefined {
+  switch (uri) {
+    case BALANCE_URI:
+      return 'get_balance';
+    case MINTS_URI:
+      return 'get_mint_balances';
+    case TRANSACTIONS_URI:
+      return 'list_transactions';
+    default:
+      // Also matches the template itself
+      return parseMintInfoUri(uri) ? 'get_mint_info' : undefined;
+  }
+}
+
+/**
+ * The resources whose contents a wallet change affects. The mint list
+ * carries balances and names, so it changes along with both.
+ */
+export function changedUris(change: WalletChange): string[] {
+  switch (change.resource) {
+    case 'balance':
+      return [BALANCE_URI, MINTS_URI];
+    case 'mints':
+      return [MINTS_URI, BALANCE_URI];
+    case 'transactions':
+      return [TRANSACTIONS_URI];
+    case 'mint_info':
+      return [mintInfoUri(change.mint), MINTS_URI];
+  }
+}
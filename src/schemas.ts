@@ -0,0 +1,308 @@
+import { WALLET_ERROR_CODES } from './errors';
+
+/**
+ * Output schemas (JSON Schema) for the structuredContent of every MCP
+ * tool. Each schema also admits an error result, which carries only
+ * `error` and whatever details the failure has, since clients validate
+ * error results against the same schema.
+ */
+
+type Schema = Record<string, unknown>;
+
+const string: Schema = { type: 'string' };
+const number: Schema = { type: 'number' };
+const boolean: Schema = { type: 'boolean' };
+const timestamp: Schema = { type: 'number', description: 'Unix time in seconds' };
+const timestampMs: Schema = { type: 'number', description: 'Unix time in milliseconds' };
+const sats = (description: string): Schema => ({ type: 'number', description });
+const arrayOf = (items: Schema): Schema => ({ type: 'array', items });
+const recordOf = (values: Schema): Schema => ({ type: 'object', additionalProperties: values });
+
+function object(properties: Record<string, Schema>, required: string[] = []): Schema {
+  return { type: 'object', properties, required };
+}
+
+const ERROR = object({
+  code: { type: 'string', enum: WALLET_ERROR_CODES, description: 'Stable machine-readable error code' },
+  message: string
+}, ['code', 'message']);
+
+// A tool's result: the listed fields when it succeeds, `error` when it fails
+function output(properties: Record<string, Schema>, required: string[] = [], ...alternatives: string[][]): Schema {
+  return {
+    type: 'object',
+    properties: { ...properties, error: ERROR },
+    anyOf: [required, ...alternatives, ['error']].map((fields) => ({ required: fields }))
+  };
+}
+
+const CONVERSION = object({
+  amount: number,
+  unit: string,
+  sats: number,
+  btcPrice: number
+}, ['amount', 'unit', 'sats']);
+
+const FIAT = object({ currency: string, value: number, btcPrice: number }, ['currency', 'value', 'btcPrice']);
+
+const UNIT_BALANCES = recordOf(number);
+
+const DEPOSIT = object({
+  depositId: string,
+  quoteId: string,
+  mint: string,
+  amount: sats('Sats to be minted'),
+  bolt11: string,
+  status: { type: 'string', enum: ['pending', 'paid', 'expired', 'failed'] },
+  createdAt: timestampMs,
+  updatedAt: timestampMs,
+  expiresAt: timestampMs,
+  error: string
+}, ['depositId', 'mint', 'amount', 'bolt11', 'status']);
+
+const INVOICE = object({
+  bolt11: string,
+  amountMsat: number,
+  amountSats: number,
+  paymentHash: string,
+  description: string,
+  descriptionHash: string,
+  payee: string,
+  createdAt: timestamp,
+  expiresAt: timestamp,
+  expired: boolean
+}, ['bolt11', 'expired']);
+
+const PAYMENT_PART = object({
+  mint: string,
+  amount: number,
+  feeReserve: number,
+  paid: boolean,
+  pending: boolean,
+  fee: number,
+  error: string
+}, ['mint', 'amount', 'feeReserve']);
+
+const PAYMENT_RESULT: Record<string, Schema> = {
+  success: boolean,
+  pending: boolean,
+  amount: sats('Sats paid to the recipient, excluding fees'),
+  fee: sats('Lightning fee paid'),
+  feeReserve: sats('Fee reserve the mint held back'),
+  change: sats('Unused fee reserve returned as change'),
+  mint: string,
+  preimage: string,
+  paymentHash: string,
+  parts: arrayOf(PAYMENT_PART),
+  bolt11: string
+};
+
+const APPROVAL_REQUEST = object({
+  kind: { type: 'string', enum: ['pay', 'zap', 'send_token'] },
+  amount: number,
+  destination: string,
+  feeEstimate: number,
+  description: string,
+  reason: string
+}, ['kind', 'amount', 'destination', 'reason']);
+
+// Fields of a payment held for a person to approve, or refused by the spending policy
+const PAYMENT_OUTCOME: Record<string, Schema> = {
+  pending: { type: 'boolean', description: 'The payment is held until the user approves it' },
+  paymentId: string,
+  approval: APPROVAL_REQUEST,
+  rejection: object({
+    rule: string,
+    message: string,
+    amount: number,
+    recipient: string,
+    remaining: object({ perPayment: number, hourly: number, daily: number })
+  }, ['rule', 'message'])
+};
+
+// Payment tools also return a pending result, which is not an error
+function paymentOutput(properties: Record<string, Schema>, required: string[]): Schema {
+  return output({ ...properties, ...PAYMENT_OUTCOME }, required, ['success', 'pending', 'paymentId']);
+}
+
+const ZAP_LEG = object({
+  pubkey: string,
+  npub: string,
+  amount: number,
+  success: boolean,
+  method: { type: 'string', enum: ['nip57', 'nip61'] },
+  receiptId: string,
+  preimage: string,
+  fee: number,
+  error: string
+}, ['pubkey', 'amount', 'success']);
+
+const LEDGER_ENTRY = object({
+  id: string,
+  timestamp: timestampMs,
+  type: { type: 'string', enum: ['deposit', 'melt', 'zap', 'send', 'receive', 'fee'] },
+  status: { type: 'string', enum: ['pending', 'completed', 'failed'] },
+  amount: number,
+  mint: string,
+  counterparty: string,
+  description: string,
+  reference: string
+}, ['id', 'timestamp', 'type', 'status', 'amount']);
+
+const MINT_TRANSFER = object({
+  from: string,
+  to: string,
+  amount: sats('Sats minted on the destination, excluding the fee'),
+  fee: number,
+  depositId: string,
+  claimed: boolean
+}, ['from', 'to', 'amount', 'fee']);
+
+const MINT_INFO = object({
+  name: string,
+  pubkey: string,
+  version: string,
+  description: string,
+  description_long: string,
+  contact: arrayOf(object({ method: string, info: string })),
+  motd: string,
+  nuts: { type: 'object' }
+});
+
+const MINT_HEALTH = object({
+  mint: string,
+  reachable: boolean,
+  latencyMs: number,
+  name: string,
+  version: string,
+  activeKeysets: number,
+  units: arrayOf(string),
+  missingNuts: arrayOf(string),
+  compatible: boolean,
+  error: string
+}, ['mint', 'reachable', 'compatible']);
+
+const RELAY = object({ url: string, connected: boolean, status: string, write: boolean }, ['url', 'connected', 'status', 'write']);
+
+const NWC_CONNECTION = object({
+  id: string,
+  name: string,
+  pubkey: string,
+  permissions: arrayOf(string),
+  budget: object({ amount: number, period: string }, ['amount', 'period']),
+  payments: arrayOf(object({ amount: number, timestamp: timestampMs })),
+  createdAt: timestampMs,
+  expiresAt: timestampMs
+}, ['id', 'name', 'pubkey', 'permissions']);
+
+export const TOOL_OUTPUT_SCHEMAS: Record<string, Schema> = {
+  get_balance: output({ balance: sats('Total sats'), units: UNIT_BALANCES, fiat: FIAT }, ['balance', 'units']),
+  get_mint_balances: output({ balances: recordOf(UNIT_BALANCES), totals: UNIT_BALANCES, fiat: FIAT }, ['balances', 'totals']),
+  deposit: output({ deposit: DEPOSIT, conversion: CONVERSION }, ['deposit']),
+  check_deposit: output({ deposit: DEPOSIT }, ['deposit']),
+  list_deposits: output({ deposits: arrayOf(DEPOSIT) }, ['deposits']),
+  pay: paymentOutput(PAYMENT_RESULT, ['success', 'amount', 'fee']),
+  decode_invoice: output({ invoice: INVOICE }, ['invoice']),
+  quote_payment: output({
+    quote: object({
+      amount: number,
+      paymentHash: string,
+      description: string,
+      payee: string,
+      expiresAt: timestamp,
+      expired: boolean,
+      mint: string,
+      mintBalance: number,
+      feeReserve: number,
+      totalRequired: sats('Amount plus fee reserve'),
+      parts: arrayOf(PAYMENT_PART),
+      balance: number,
+      sufficient: boolean,
+      reason: string
+    }, ['amount', 'expired', 'balance', 'sufficient'])
+  }, ['quote']),
+  pay_lightning_address: paymentOutput({ ...PAYMENT_RESULT, address: string, conversion: CONVERSION }, ['success', 'amount', 'fee', 'address']),
+  zap: paymentOutput({
+    success: boolean,
+    recipient: string,
+    amount: number,
+    comment: string,
+    eventId: string,
+    legs: arrayOf(ZAP_LEG),
+    conversion: CONVERSION
+  }, ['success', 'recipient', 'amount', 'legs']),
+  send_token: paymentOutput({
+    success: boolean,
+    token: string,
+    amount: number,
+    mintUrl: string,
+    conversion: CONVERSION
+  }, ['success', 'token', 'amount', 'mintUrl']),
+  receive_token: output({ success: boolean, amount: number, mintUrl: string, mintAdded: boolean }, ['success', 'amount', 'mintUrl']),
+  approve_payment: paymentOutput({
+    pendingPayments: arrayOf(object({ paymentId: string, request: APPROVAL_REQUEST, createdAt: timestampMs }, ['paymentId', 'request'])),
+    success: boolean,
+    result: { type: 'object', description: 'What the approved payment tool would have returned' }
+  }, []),
+  list_incoming_zaps: output({
+    incomingZaps: arrayOf(object({
+      id: string,
+      sender: string,
+      amount: number,
+      mint: string,
+      comment: string,
+      eventId: string,
+      status: string,
+      createdAt: timestampMs,
+      updatedAt: timestampMs,
+      redeemedAmount: number,
+      error: string
+    }, ['id', 'sender', 'amount', 'mint', 'status']))
+  }, ['incomingZaps']),
+  list_transactions: output({ transactions: arrayOf(LEDGER_ENTRY) }, ['transactions']),
+  export_transactions: output({ format: { type: 'string', enum: ['csv', 'json'] }, count: number, data: string }, ['format', 'data']),
+  remove_mint: output({
+    mint: string,
+    transfer: MINT_TRANSFER,
+    remaining: sats('Sats left on the removed mint')
+  }, ['mint', 'remaining']),
+  rebalance: output({
+    plan: object({
+      total: number,
+      current: recordOf(number),
+      desired: recordOf(number),
+      moves: arrayOf(object({ from: string, to: string, amount: number }))
+    }, ['total', 'current', 'desired', 'moves']),
+    transfers: arrayOf(object({ from: string, to: string, amount: number, transfer: MINT_TRANSFER, error: string }))
+  }, ['plan', 'transfers']),
+  get_mint_info: output({ mintUrl: string, mintInfo: MINT_INFO }, ['mintInfo']),
+  check_mints: output({ mints: arrayOf(MINT_HEALTH) }, ['mints']),
+  add_mint: output({ mintUrl: string }, ['mintUrl']),
+  verify_wallet: output({
+    before: number,
+    after: number,
+    mints: arrayOf(object({
+      mint: string,
+      before: number,
+      after: number,
+      proofsBefore: number,
+      proofsAfter: number,
+      spent: number,
+      pending: number,
+      recovered: number,
+      consolidated: boolean,
+      fee: number,
+      error: string
+    }, ['mint', 'before', 'after']))
+  }, ['before', 'after', 'mints']),
+  restore: output({
+    recovered: sats('Sats recovered from the seed'),
+    mints: arrayOf(object({ mint: string, keysets: number, recovered: number, proofs: number, error: string }, ['mint', 'recovered']))
+  }, ['recovered', 'mints']),
+  list_relays: output({ relays: arrayOf(RELAY) }, ['relays']),
+  add_relay: output({ relay: RELAY }, ['relay']),
+  remove_relay: output({ url: string }, ['url']),
+  create_nwc_connection: output({ connection: NWC_CONNECTION, uri: string }, ['connection', 'uri']),
+  list_nwc_connections: output({ connections: arrayOf(NWC_CONNECTION) }, ['connections']),
+  revoke_nwc_connection: output({ id: string }, ['id'])
+};
@@ -0,0 +1,188 @@
+import {
+  CashuMint,
+  CashuWallet,
+  CheckStateEnum,
+  MintKeys,
+  MintProofOptions,
+  MintQuoteResponse,
+  MintQuoteState,
+  OutputData,
+  Proof
+} from '@cashu/cashu-ts';
+import { NDKCashuWallet } from '@nostr-dev-kit/ndk-wallet';
+import { generateMnemonic, mnemonicToSeedSync, validateMnemonic } from '@scure/bip39';
+import { wordlist } from '@scure/bip39/wordlists/english';
+
+/**
+ * The NUT-13 seed as stored under `seed` in `.wallet.json`.
+ */
+export interface WalletSeed {
+  // BIP-39 mnemonic, NIP-44 encrypted to the wallet's own key; missing until the signer has encrypted it
+  encryptedMnemonic?: string;
+  // Next derivation counter for each keyset
+  counters: Record<string, number>;
+}
+
+/**
+ * What restore found on one mint. Amounts are in sats.
+ */
+export interface MintRestore {
+  mint: string;
+  keysets: number;
+  // Unspent proofs the wallet did not hold, now stored
+  recovered: number;
+  proofs: number;
+  error?: string;
+}
+
+export interface WalletRestore {
+  recovered: number;
+  mints: MintRestore[];
+}
+
+// Stop scanning a keyset after this many unused counters (NUT-13 suggests a few hundred)
+const GAP_LIMIT = 300;
+const BATCH_SIZE = 100;
+
+export function generateSeedMnemonic(): string {
+  return generateMnemonic(wordlist, 128);
+}
+
+export function seedFromMnemonic(mnemonic: string): Uint8Array {
+  const words = mnemonic.trim().toLowerCase().split(/\s+/).join(' ');
+  if (!validateMnemonic(words, wordlist)) {
+    throw new Error('Invalid mnemonic: expected 12 or 24 English BIP-39 words');
+  }
+  return mnemonicToSeedSync(words);
+}
+
+/**
+ * Makes every CashuWallet the NDK wallet loads derive the secrets of the
+ * proofs it keeps (minted, received, change) from `seed`, so they can be
+ * restored from the mnemonic alone. `counters` is shared with
+ * WalletData and `onChange` is called after each use so the counter is
+ * on disk before the outputs reach the mint: reusing one would make the
+ * mint refuse the outputs as already signed.
+ */
+export function useDeterministicSecrets(
+  wallet: NDKCashuWallet,
+  seed: Uint8Array,
+  counters: Record<string, number>,
+  onChange: () => void
+): void {
+  const keepFactory = (amount: number, keys: MintKeys) => {
+    const counter = counters[keys.id] || 0;
+    counters[keys.id] = counter + 1;
+    onChange();
+    return OutputData.createSingleDeterministicData(amount, seed, counter, keys.id);
+  };
+
+  const loadCashuWallet = wallet.getCashuWallet;
+  const seeded = new Map<string, CashuWallet>();
+  wallet.getCashuWallet = async (mint: string) => {
+    const existing = seeded.get(mint);
+    if (existing) return existing;
+
+    // Let NDK load the mint's keys (and use its caches), then derive from the seed on top of them
+    const loaded = await loadCashuWallet(mint);
+    // No bip39seed here: CashuWallet ignores keepFactory when it is given one
+    const cashuWallet = seeded.get(mint) || new CashuWallet(loaded.mint, {
+      unit: loaded.unit,
+      keys: Array.from(loaded.keys.values()),
+      keysets: loaded.keysets,
+      keepFactory
+    });
+    if (!seeded.has(mint)) skipUnpaidQuotes(cashuWallet);
+    seeded.set(mint, cashuWallet);
+    wallet.cashuWallets.set(mint, cashuWallet);
+    return cashuWallet;
+  };
+}
+
+/**
+ * Deposits are polled by trying to mint, and every failed attempt uses
+ * up counters. A quote left unpaid for a while would open a gap wider
+ * than restore scans, so the quote is checked before any outputs are made.
+ */
+function skipUnpaidQuotes(cashuWallet: CashuWallet): void {
+  const mintProofs = cashuWallet.mintProofs.bind(cashuWallet) as (
+    amount: number,
+    quote: MintQuoteResponse | string,
+    options?: MintProofOptions
+  ) => Promise<Proof[]>;
+
+  cashuWallet.mintProofs = (async (amount: number, quote: MintQuoteResponse | string, options?: MintProofOptions) => {
+    const { state } = await cashuWallet.checkMintQuote(typeof quote === 'string' ? quote : quote.quote);
+    // Same wording as the mint's error, which NDK treats as "try again later"
+    if (state === MintQuoteState.UNPAID) throw new Error('Quote not paid');
+    return mintProofs(amount, quote, options);
+  }) as CashuWallet['mintProofs'];
+}
+
+/**
+ * Regenerates the outputs `seed` could have produced for each of the
+ * mint's sat keysets and asks the mint to sign them again (NUT-09).
+ * Counters are moved past the last signed output, so new outputs do
+ * not collide with restored ones. Returns every proof found, spent or not.
+ */
+export async function scanMintProofs(
+  mint: string,
+  seed: Uint8Array,
+  counters: Record<string, number>
+): Promise<{ keysets: number; proofs: Proof[] }> {
+  // A wallet of its own, since restoring from an old keyset switches the wallet's active keyset
+  const cashuWallet = new CashuWallet(new CashuMint(mint), { unit: 'sat', bip39seed: seed });
+  // Secrets can only be derived for hex keyset IDs
+  const keysets = (await cashuWallet.getKeySets()).filter((keyset) => /^[0-9a-f]+$/i.test(keyset.id));
+
+  const proofs: Proof[] = [];
+  for (const keyset of keysets) {
+    const restored = await cashuWallet.batchRestore(GAP_LIMIT, BATCH_SIZE, 0, keyset.id);
+    proofs.push(...restored.proofs);
+    if (restored.lastCounterWithSignature !== undefined) {
+      counters[keyset.id] = Math.max(counters[keyset.id] || 0, restored.lastCounterWithSignature + 1);
+    }
+  }
+  return { keysets: keysets.length, proofs };
+}
+
+/**
+ * Stores the proofs among `candidates` that the mint reports unspent
+ * and the wallet has never held. Proofs the wallet deleted are left
+ * out, since they may be in a token handed to someone who has not
+ * redeemed it yet.
+ */
+export async function storeUnspentProofs(wallet: NDKCashuWallet, mint: string, candidates: Proof[]): Promise<Proof[]> {
+  const held = new Set(wallet.state.getProofs({ mint, includeDeleted: true, onlyAvailable: false }).map((proof) => proof.secret));
+  const unique = new Map<string, Proof>();
+  for (const proof of candidates) {
+    if (!held.has(proof.secret)) unique.set(proof.secret, proof);
+  }
+  const fresh = Array.from(unique.values());
+  if (fresh.length === 0) return [];
+
+  const cashuWallet = await wallet.getCashuWallet(mint);
+  const states = await cashuWallet.checkProofsStates(fresh);
+  const unspent = fresh.filter((_, i) => states[i]?.state === CheckStateEnum.UNSPENT);
+  if (unspent.length > 0) {
+    await wallet.state.update({ mint, store: unspent }, 'Restore');
+  }
+  return unspent;
+}
+
+export function formatMintRestore(result: MintRestore): string {
+  const parts = [result.mint];
+  if (result.keysets) parts.push(`${result.keysets} keyset(s) scanned`);
+  parts.push(result.recovered ? `${result.recovered} sats recovered in ${result.proofs} proofs` : 'nothing to recover');
+  if (result.error) parts.push(result.error);
+  return parts.join(' | ');
+}
+
+export function formatWalletRestore(result: WalletRestore): string {
+  if (result.mints.length === 0) return 'No mints to restore from';
+
+  return [
+    ...result.mints.map(formatMintRestore),
+    `Total recovered: ${result.recovered} sats`,
+  ].join('\n');
+}
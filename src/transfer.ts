@@ -0,0 +1,128 @@
+import { CashuWallet, MeltQuoteResponse, MeltQuoteState, Proof } from '@cashu/cashu-ts';
+import { NDKCashuDeposit, NDKCashuWallet } from '@nostr-dev-kit/ndk-wallet';
+import { WalletError, errorMessage } from './errors';
+
+export interface MeltResult {
+  preimage?: string;
+  // Sats taken from the mint, including the Lightning fee
+  spent: number;
+  fee: number;
+}
+
+export interface PreparedTransfer {
+  deposit: NDKCashuDeposit;
+  bolt11: string;
+  meltQuote: MeltQuoteResponse;
+}
+
+const sum = (proofs: Proof[]) => proofs.reduce((total, proof) => total + proof.amount, 0);
+
+// Quotes are re-requested with a smaller amount if the fee reserve does not fit
+const MAX_QUOTE_ATTEMPTS = 3;
+
+/**
+ * Whether the mint reports a melt quote as unpaid. False when the mint
+ * cannot be asked, since the payment may then still go through.
+ */
+async function isMeltUnpaid(cashuWallet: CashuWallet, quoteId: string): Promise<boolean> {
+  try {
+    const { state } = await cashuWallet.checkMeltQuote(quoteId);
+    return state === MeltQuoteState.UNPAID;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Pays an invoice using only proofs from one mint. `lnPay` picks the
+ * mint itself, which is no good when funds must leave a specific mint.
+ * Mirrors ndk-wallet's own proof reservation so the wallet state stays
+ * consistent if the melt fails. The proofs are only given back when the
+ * mint confirms the invoice was not paid; otherwise a PAYMENT_PENDING
+ * error is thrown and they stay reserved for verify_wallet to settle.
+ */
+export async function meltFromMint(wallet: NDKCashuWallet, mint: string, meltQuote: MeltQuoteResponse): Promise<MeltResult> {
+  const cashuWallet = await wallet.getCashuWallet(mint);
+  const amountWithFees = meltQuote.amount + meltQuote.fee_reserve;
+
+  const available = wallet.state.getProofs({ mint, onlyAvailable: true });
+  const { send } = cashuWallet.selectProofsToSend(available, amountWithFees);
+  if (sum(send) < amountWithFees) {
+    throw new WalletError('INSUFFICIENT_FUNDS', `Not enough funds on ${mint}: need ${amountWithFees} sats including the fee reserve`);
+  }
+
+  wallet.state.reserveProofs(send, amountWithFees);
+  try {
+    const { quote, change } = await cashuWallet.meltProofs(meltQuote, send);
+    if (quote.state !== MeltQuoteState.PAID) {
+      throw new WalletError('PAYMENT_FAILED', `Mint ${mint} did not pay the invoice (quote state ${quote.state})`);
+    }
+
+    await wallet.state.update({ mint, store: change, destroy: send });
+    const spent = sum(send) - sum(change);
+    return { preimage: quote.payment_preimage || undefined, spent, fee: Math.max(0, spent - meltQuote.amount) };
+  } catch (error) {
+    if (await isMeltUnpaid(cashuWallet, meltQuote.quote)) {
+      wallet.state.unreserveProofs(send, amountWithFees, 'available');
+      throw error;
+    }
+
+    // Ends the reservation, so no payment counts as running and verify_wallet may ask the mint about
+    // the proofs, but keeps the proofs themselves reserved so nothing else spends them meanwhile
+    wallet.state.unreserveProofs(send, amountWithFees, 'available');
+    for (const proof of send) wallet.state.updateProof(proof, { state: 'reserved' });
+    throw new WalletError('PAYMENT_PENDING', `Payment from ${mint} is not settled (${errorMessage(error)}); run verify_wallet later to release or remove its ${amountWithFees} sats`);
+  }
+}
+
+/**
+ * Creates a deposit invoice on `to` and a melt quote for it on `from`,
+ * shrinking the amount until the fee reserve fits within `maxSpend`.
+ */
+export async function prepareTransfer(
+  wallet: NDKCashuWallet,
+  from: string,
+  to: string,
+  amount: number,
+  maxSpend: number
+): Promise<PreparedTransfer> {
+  const cashuWallet = await wallet.getCashuWallet(from);
+
+  for (let attempt = 0; attempt < MAX_QUOTE_ATTEMPTS; attempt++) {
+    if (amount <= 0) break;
+
+    const deposit = wallet.deposit(amount, to);
+    const bolt11 = await deposit.start();
+    const meltQuote = await cashuWallet.createMeltQuote(bolt11);
+    if (meltQuote.amount + meltQuote.fee_reserve <= maxSpend) {
+      return { deposit, bolt11, meltQuote };
+    }
+
+    // Stops the abandoned deposit's polling loop
+    deposit.finalized = true;
+    amount = Math.min(amount - 1, maxSpend - meltQuote.fee_reserve);
+  }
+
+  throw new WalletError('INSUFFICIENT_FUNDS', `Balance on ${from} is too small to cover the Lightning fee reserve for a transfer to ${to}`);
+}
+
+export interface MintTransfer {
+  from: string;
+  to: string;
+  // Sats minted on the destination, excluding the fee
+  amount: number;
+  fee: number;
+  depositId: string;
+  claimed: boolean;
+}
+
+export function formatMintTransfer(transfer: MintTransfer): string {
+  const parts = [
+    `Moved ${transfer.amount} sats from ${transfer.from} to ${transfer.to}`,
+    `fee ${transfer.fee} sats`,
+  ];
+  if (!transfer.claimed) {
+    parts.push(`deposit ${transfer.depositId} not claimed yet`);
+  }
+  return parts.join(' | ');
+}
@@ -0,0 +1,234 @@
+import { WalletError } from './errors';
+
+/**
+ * Units amounts can be given in besides fiat currencies. The wallet
+ * holds sat ecash; amounts in any other unit are converted to sats.
+ */
+export const BITCOIN_UNITS = ['sat', 'msat', 'btc'];
+
+export interface RateProvider {
+  name: string;
+  // Price of one bitcoin in a currency given as a lowercase ISO 4217 code
+  getBtcPrice(currency: string): Promise<number>;
+}
+
+export interface FiatConfig {
+  // Currency balances are also shown in, e.g. "usd"
+  currency?: string;
+  provider?: 'mempool' | 'coinbase';
+  // Fixed BTC prices per currency, used instead of a provider (e.g. offline)
+  rates?: Record<string, number>;
+}
+
+export interface Conversion {
+  amount: number;
+  unit: string;
+  sats: number;
+  btcPrice?: number;
+}
+
+export interface FiatValue {
+  currency: string;
+  value: number;
+  btcPrice: number;
+}
+
+const REQUEST_TIMEOUT = 10 * 1000;
+const RATE_TTL = 5 * 60 * 1000;
+
+async function getJson(url: string): Promise<any> {
+  const response = await fetch(url, { signal: AbortSignal.timeout(REQUEST_TIMEOUT) });
+  if (!response.ok) {
+    throw new Error(`${new URL(url).host} returned HTTP ${response.status}`);
+  }
+  return response.json();
+}
+
+function checkPrice(price: unknown, currency: string, source: string): number {
+  const value = Number(price);
+  if (!isFinite(value) || value <= 0) {
+    throw new Error(`No BTC price in ${currency.toUpperCase()} from ${source}`);
+  }
+  return value;
+}
+
+export class StaticRateProvider implements RateProvider {
+  name = 'static';
+  private rates: Record<string, number>;
+
+  constructor(rates: Record<string, number>) {
+    this.rates = Object.fromEntries(Object.entries(rates).map(([currency, rate]) => [currency.toLowerCase(), rate]));
+  }
+
+  async getBtcPrice(currency: string): Promise<number> {
+    return checkPrice(this.rates[currency], currency, 'the configured rates');
+  }
+}
+
+// Covers USD, EUR, GBP, CAD, CHF, AUD and JPY
+export class MempoolRateProvider implements RateProvider {
+  name = 'mempool';
+
+  async getBtcPrice(currency: string): Promise<number> {
+    const prices = await getJson('https://mempool.space/api/v1/prices');
+    return checkPrice(prices[currency.toUpperCase()], currency, 'mempool.space');
+  }
+}
+
+export class CoinbaseRateProvider implements RateProvider {
+  name = 'coinbase';
+
+  async getBtcPrice(currency: string): Promise<number> {
+    const { data } = await getJson('https://api.coinbase.com/v2/exchange-rates?currency=BTC');
+    return checkPrice(data?.rates?.[currency.toUpperCase()], currency, 'Coinbase');
+  }
+}
+
+/**
+ * Wraps a provider so each currency is fetched at most once every few
+ * minutes.
+ */
+export class CachedRateProvider implements RateProvider {
+  name: string;
+  private cache = new Map<string, { price: number; timestamp: number }>();
+
+  constructor(private provider: RateProvider, private ttl = RATE_TTL) {
+    this.name = provider.name;
+  }
+
+  async getBtcPrice(currency: string): Promise<number> {
+    const cached = this.cache.get(currency);
+    if (cached && Date.now() - cached.timestamp < this.ttl) {
+      return cached.price;
+    }
+
+    const price = await this.provider.getBtcPrice(currency);
+    this.cache.set(currency, { price, timestamp: Date.now() });
+    return price;
+  }
+}
+
+export function createRateProvider(config: FiatConfig = {}): RateProvider {
+  if (config.rates) {
+    return new StaticRateProvider(config.rates);
+  }
+  const provider = config.provider === 'coinbase' ? new CoinbaseRateProvider() : new MempoolRateProvider();
+  return new CachedRateProvider(provider);
+}
+
+/**
+ * Lowercases a unit and checks it is a bitcoin unit or looks like a
+ * currency code.
+ */
+export function normalizeUnit(unit: string): string {
+  const value = unit.trim().toLowerCase();
+  if (value === 'sats') return 'sat';
+  if (BITCOIN_UNITS.includes(value) || /^[a-z]{3}$/.test(value)) {
+    return value;
+  }
+  throw new WalletError('INVALID_ARGUMENT', `Unknown unit: ${unit}. Use sat, msat, btc or a currency code such as usd`);
+}
+
+export function isFiat(unit: string): boolean {
+  return !BITCOIN_UNITS.includes(normalizeUnit(unit));
+}
+
+/**
+ * Parses an amount typed on the command line. Unlike Number or parseInt
+ * it refuses anything but a plain decimal, such as "10abc", "0x10" or "".
+ */
+export function parseAmount(value: string): number {
+  const amount = Number(value);
+  if (!/^\d+(\.\d+)?$/.test(value.trim()) || amount <= 0) {
+    throw new WalletError('INVALID_ARGUMENT', `Invalid amount: ${value}`);
+  }
+  return amount;
+}
+
+export async function convertToSats(amount: number, unit: string, rates: RateProvider): Promise<Conversion> {
+  if (typeof amount !== 'number' || !isFinite(amount) || amount <= 0) {
+    throw new WalletError('INVALID_ARGUMENT', `Invalid amount: ${amount}`);
+  }
+
+  const normalized = normalizeUnit(unit);
+  let sats: number;
+  let btcPrice: number | undefined;
+  if (normalized === 'sat') {
+    if (!Number.isInteger(amount)) {
+      throw new WalletError('INVALID_ARGUMENT', `Invalid amount: ${amount}. Sats cannot be split; give fractions of a sat in msat`);
+    }
+    sats = amount;
+  } else if (normalized === 'msat') {
+    sats = Math.ceil(amount / 1000);
+  } else if (normalized === 'btc') {
+    sats = Math.round(amount * 1e8);
+  } else {
+    btcPrice = await rates.getBtcPrice(normalized);
+    sats = Math.round(amount / btcPrice * 1e8);
+  }
+
+  if (sats < 1) {
+    throw new WalletError('INVALID_ARGUMENT', `${amount} ${normalized} is less than 1 sat`);
+  }
+  return { amount, unit: normalized, sats, btcPrice };
+}
+
+export async function satsToFiat(sats: number, currency: string, rates: RateProvider): Promise<FiatValue> {
+  const normalized = normalizeUnit(currency);
+  if (!isFiat(normalized)) {
+    throw new WalletError('INVALID_ARGUMENT', `${currency} is not a fiat currency`);
+  }
+  const btcPrice = await rates.getBtcPrice(normalized);
+  return { currency: normalized, value: sats / 1e8 * btcPrice, btcPrice };
+}
+
+export function totalUnitBalances(balances: Record<string, Record<string, number>>): Record<string, number> {
+  const totals: Record<string, number> = {};
+  for (const units of Object.values(balances)) {
+    for (const [unit, amount] of Object.entries(units)) {
+      totals[unit] = (totals[unit] || 0) + amount;
+    }
+  }
+  return totals;
+}
+
+export function formatFiat(value: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency: currency.toUpperCase() }).format(value);
+  } catch {
+    return `${value.toFixed(2)} ${currency.toUpperCase()}`;
+  }
+}
+
+/**
+ * Formats an ecash amount in its keyset unit. Cashu fiat keysets count
+ * in the currency's minor unit (cents).
+ */
+export function formatUnitAmount(amount: number, unit: string): string {
+  if (unit === 'sat') return `${amount} sats`;
+  if (BITCOIN_UNITS.includes(unit)) return `${amount} ${unit}`;
+  return formatFiat(amount / 100, unit);
+}
+
+/**
+ * Formats balances per unit, sats first, with the sats' fiat value when
+ * one is given.
+ */
+export function formatUnitBalances(units: Record<string, number>, fiat?: FiatValue): string {
+  const sats = units.sat || 0;
+  const parts = [`${sats} sats${fiat ? ` (≈ ${formatFiat(sats / 1e8 * fiat.btcPrice, fiat.currency)})` : ''}`];
+  for (const [unit, amount] of Object.entries(units)) {
+    if (unit !== 'sat' && amount > 0) parts.push(`${formatUnitAmount(amount, unit)} in ${unit} ecash`);
+  }
+  return parts.join(', ');
+}
+
+export function formatConversion(conversion: Conversion): string {
+  if (conversion.unit === 'sat') return `${conversion.sats} sats`;
+
+  const requested = conversion.btcPrice !== undefined
+    ? formatFiat(conversion.amount, conversion.unit)
+    : `${conversion.amount} ${conversion.unit}`;
+  const rate = conversion.btcPrice !== undefined ? ` at ${formatFiat(conversion.btcPrice, conversion.unit)}/BTC` : '';
+  return `${requested} = ${conversion.sats} sats${rate}`;
+}
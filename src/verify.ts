@@ -0,0 +1,137 @@
+import { CheckStateEnum, Proof } from '@cashu/cashu-ts';
+import { NDKCashuWallet } from '@nostr-dev-kit/ndk-wallet';
+
+/**
+ * What verify_wallet found and changed on one mint. Amounts are in sats.
+ */
+export interface MintVerification {
+  mint: string;
+  before: number;
+  after: number;
+  proofsBefore: number;
+  proofsAfter: number;
+  // Proofs the mint reports as spent, removed from the wallet
+  spent: number;
+  // Proofs in a melt the mint has not settled yet, kept reserved
+  pending: number;
+  // Reserved proofs left behind by an interrupted payment, made available again
+  recovered: number;
+  consolidated: boolean;
+  fee: number;
+  error?: string;
+}
+
+export interface WalletVerification {
+  before: number;
+  after: number;
+  mints: MintVerification[];
+}
+
+const sum = (proofs: Proof[]) => proofs.reduce((total, proof) => total + proof.amount, 0);
+
+// Fewest proofs that can hold `amount`: one per set bit
+const minimalProofCount = (amount: number) => amount.toString(2).split('').filter((bit) => bit === '1').length;
+
+/**
+ * Many small proofs are worth swapping once there are more than twice
+ * as many as the amount needs.
+ */
+export function shouldConsolidate(proofs: Proof[]): boolean {
+  return proofs.length > 1 && proofs.length > 2 * minimalProofCount(sum(proofs));
+}
+
+/**
+ * Checks every proof the wallet holds on `mint` with the mint (NUT-07).
+ * Spent proofs are removed, which republishes the affected token events.
+ * Reserved proofs the mint still considers unspent are released unless
+ * another payment is in flight. With `consolidate`, the remaining proofs
+ * are swapped for fewer, larger ones.
+ */
+export async function verifyMintProofs(wallet: NDKCashuWallet, mint: string, consolidate: boolean): Promise<MintVerification> {
+  const entries = wallet.state.getProofEntries({ mint, onlyAvailable: false });
+  const proofs = entries.map((entry) => entry.proof);
+  const result: MintVerification = {
+    mint,
+    before: sum(proofs),
+    after: sum(proofs),
+    proofsBefore: proofs.length,
+    proofsAfter: proofs.length,
+    spent: 0,
+    pending: 0,
+    recovered: 0,
+    consolidated: false,
+    fee: 0,
+  };
+  if (proofs.length === 0) return result;
+
+  const cashuWallet = await wallet.getCashuWallet(mint);
+  const states = await cashuWallet.checkProofsStates(proofs);
+
+  // Reservations are only tracked in memory, so none outstanding means no payment is running
+  const inFlight = wallet.state.reserveAmounts.length > 0;
+  const spent: Proof[] = [];
+  entries.forEach((entry, i) => {
+    const state = states[i]?.state;
+    if (state === CheckStateEnum.SPENT) {
+      spent.push(entry.proof);
+    } else if (state === CheckStateEnum.PENDING) {
+      result.pending += entry.proof.amount;
+      if (entry.state !== 'reserved') wallet.state.updateProof(entry.proof, { state: 'reserved' });
+    } else if (entry.state === 'reserved' && !inFlight) {
+      result.recovered += entry.proof.amount;
+      wallet.state.updateProof(entry.proof, { state: 'available' });
+    }
+  });
+
+  if (spent.length > 0) {
+    result.spent = sum(spent);
+    await wallet.state.update({ mint, destroy: spent }, 'Remove spent proofs');
+  }
+
+  const available = wallet.state.getProofs({ mint, onlyAvailable: true });
+  if (consolidate && shouldConsolidate(available)) {
+    const total = sum(available);
+    const fee = cashuWallet.getFeesForProofs(available);
+    if (fee < total) {
+      wallet.state.reserveProofs(available, total);
+      try {
+        // Nothing is sent, so every output comes from the keep factory and is derived from the seed
+        const { keep } = await cashuWallet.swap(0, available);
+        await wallet.state.update({ mint, store: keep, destroy: available }, 'Consolidate');
+        wallet.state.unreserveProofs(available, total, 'deleted');
+        result.consolidated = true;
+        result.fee = fee;
+      } catch (error) {
+        wallet.state.unreserveProofs(available, total, 'available');
+        result.error = `Consolidation failed: ${error instanceof Error ? error.message : String(error)}`;
+      }
+    }
+  }
+
+  const remaining = wallet.state.getProofs({ mint, onlyAvailable: false });
+  result.after = sum(remaining);
+  result.proofsAfter = remaining.length;
+  return result;
+}
+
+export function formatMintVerification(result: MintVerification): string {
+  const parts = [result.mint, `${result.before} -> ${result.after} sats`];
+  if (result.proofsBefore !== result.proofsAfter) {
+    parts.push(`${result.proofsBefore} -> ${result.proofsAfter} proofs`);
+  }
+  if (result.spent) parts.push(`${result.spent} sats spent elsewhere removed`);
+  if (result.pending) parts.push(`${result.pending} sats pending at the mint`);
+  if (result.recovered) parts.push(`${result.recovered} sats recovered from an interrupted payment`);
+  if (result.consolidated) parts.push(`consolidated, fee ${result.fee} sats`);
+  if (result.error) parts.push(result.error);
+  return parts.join(' | ');
+}
+
+export function formatWalletVerification(result: WalletVerification): string {
+  if (result.mints.length === 0) return 'No proofs to verify';
+
+  return [
+    ...result.mints.map(formatMintVerification),
+    `Total: ${result.before} -> ${result.after} sats`,
+  ].join('\n');
+}
@@ -0,0 +1,153 @@
+import NDK, { NDKEvent, NDKKind, NDKUser } from '@nostr-dev-kit/ndk';
+import { nip19 } from 'nostr-tools';
+import { WalletError } from './errors';
+
+export interface ZapTarget {
+  // The event being zapped, or undefined when zapping a profile
+  event?: NDKEvent;
+  user: NDKUser;
+  // note1/nevent1/naddr1 or npub of what was zapped, for display
+  label: string;
+}
+
+export interface ZapLeg {
+  pubkey: string;
+  amount: number;
+}
+
+export interface ZapLegResult extends ZapLeg {
+  npub: string;
+  success: boolean;
+  method?: 'nip57' | 'nip61';
+  // Zap receipt (kind 9735) or nutzap (kind 9321) event id
+  receiptId?: string;
+  preimage?: string;
+  fee?: number;
+  error?: string;
+}
+
+export interface ZapResult {
+  success: boolean;
+  amount: number;
+  target: string;
+  eventId?: string;
+  legs: ZapLegResult[];
+}
+
+const HEX_KEY = /^[0-9a-f]{64}$/i;
+const RECEIPT_ATTEMPTS = 3;
+const RECEIPT_DELAY = 2000;
+
+/**
+ * Resolves what to zap: a profile (npub, hex pubkey or NIP-05) or an
+ * event (note1, nevent1 or naddr1), fetched so its zap splits are known.
+ */
+export async function resolveZapTarget(ndk: NDK, recipient: string): Promise<ZapTarget> {
+  const value = recipient.trim().replace(/^nostr:/i, '');
+
+  if (/^(note|nevent|naddr)1/i.test(value)) {
+    try {
+      nip19.decode(value);
+    } catch {
+      throw new WalletError('INVALID_ARGUMENT', `Invalid event reference: ${recipient}`);
+    }
+    const event = await ndk.fetchEvent(value);
+    if (!event) {
+      throw new WalletError('RECIPIENT_UNRESOLVABLE', `Could not find event ${value} on the wallet's relays`);
+    }
+    return { event, user: event.author, label: value };
+  }
+
+  if (value.startsWith('npub') || HEX_KEY.test(value)) {
+    const npub = value.startsWith('npub') ? value : nip19.npubEncode(value);
+    try {
+      nip19.decode(npub);
+    } catch {
+      throw new WalletError('INVALID_ARGUMENT', `Invalid npub: ${recipient}`);
+    }
+    return { user: ndk.getUser({ npub }), label: npub };
+  }
+
+  // Assume it's a NIP-05 identifier and try to resolve it
+  try {
+    const user = await ndk.getUserFromNip05(value);
+    if (!user) {
+      throw new WalletError('RECIPIENT_UNRESOLVABLE', `Could not resolve NIP-05 identifier: ${value}`);
+    }
+    return { user, label: value };
+  } catch (nip05Error) {
+    throw new WalletError('RECIPIENT_UNRESOLVABLE', `Failed to resolve NIP-05 identifier "${value}": ${nip05Error instanceof Error ? nip05Error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Divides `amount` sats among an event's `zap` tags (NIP-57 appendix G)
+ * in proportion to their weights. Tags without a weight share equally
+ * when no tag has one and get nothing otherwise. Rounding leftovers go
+ * to the largest weights, so the legs always add up to `amount`.
+ */
+export function planZapSplits(target: ZapTarget, amount: number): ZapLeg[] {
+  const tags = (target.event?.getMatchingTags('zap') || []).filter((tag) => HEX_KEY.test(tag[1] || ''));
+  if (tags.length === 0) {
+    return [{ pubkey: target.user.pubkey, amount }];
+  }
+
+  const weighted = tags.some((tag) => tag[3] !== undefined);
+  const weights = tags.map((tag) => {
+    if (!weighted) return 1;
+    const weight = Number(tag[3]);
+    return Number.isFinite(weight) && weight > 0 ? weight : 0;
+  });
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  if (total === 0) {
+    return [{ pubkey: target.user.pubkey, amount }];
+  }
+
+  const legs = tags.map((tag, i) => ({ pubkey: tag[1].toLowerCase(), amount: Math.floor((amount * weights[i]) / total) }));
+  let leftover = amount - legs.reduce((sum, leg) => sum + leg.amount, 0);
+  const byWeight = weights.map((weight, i) => i).sort((a, b) => weights[b] - weights[a]);
+  for (let i = 0; leftover > 0; i = (i + 1) % byWeight.length, leftover--) {
+    legs[byWeight[i]].amount++;
+  }
+
+  // The same pubkey can appear in several tags
+  const merged = new Map<string, number>();
+  for (const leg of legs) {
+    merged.set(leg.pubkey, (merged.get(leg.pubkey) || 0) + leg.amount);
+  }
+  return Array.from(merged, ([pubkey, legAmount]) => ({ pubkey, amount: legAmount })).filter((leg) => leg.amount > 0);
+}
+
+/**
+ * Waits briefly for the recipient's LNURL service to publish the zap
+ * receipt (kind 9735) for an invoice.
+ */
+export async function findZapReceipt(ndk: NDK, pubkey: string, bolt11: string, since: number): Promise<string | undefined> {
+  for (let attempt = 0; attempt < RECEIPT_ATTEMPTS; attempt++) {
+    if (attempt > 0) await new Promise((resolve) => setTimeout(resolve, RECEIPT_DELAY));
+
+    const receipts = await ndk.fetchEvents({ kinds: [NDKKind.Zap], '#p': [pubkey], since });
+    const receipt = Array.from(receipts).find((event) => event.tagValue('bolt11') === bolt11);
+    if (receipt) return receipt.id;
+  }
+  return undefined;
+}
+
+export function formatZapResult(result: ZapResult): string {
+  const paid = result.legs.filter((leg) => leg.success);
+  const lines = [
+    result.success
+      ? `Zapped ${paid.reduce((sum, leg) => sum + leg.amount, 0)} of ${result.amount} sats to ${result.target}`
+      : `Failed to zap ${result.amount} sats to ${result.target}`,
+  ];
+  if (result.legs.length > 1 || !result.success) {
+    for (const leg of result.legs) {
+      const parts = [`  ${leg.npub}`, `${leg.amount} sats`, leg.success ? 'paid' : `failed: ${leg.error}`];
+      if (leg.receiptId) parts.push(`receipt ${leg.receiptId}`);
+      lines.push(parts.join(' | '));
+    }
+  } else if (result.legs[0]?.receiptId) {
+    lines.push(`Receipt: ${result.legs[0].receiptId}`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,42 @@
+import { describe, expect, test } from 'bun:test';
+import { WalletBackup, decryptBackup, encryptBackup } from '../src/backup';
+
+const PASSPHRASE = 'correct horse battery staple';
+
+const BACKUP: WalletBackup = {
+  version: 1,
+  createdAt: Date.now(),
+  npub: 'npub1test',
+  nsec: 'nsec1test',
+  mnemonic: 'abandon abandon abandon',
+  counters: { '00ad268c4d1f5826': 3 },
+  mints: ['http://mint.regtest'],
+  relays: ['ws://relay.regtest'],
+  proofs: { 'http://mint.regtest': [{ amount: 8, id: '00ad268c4d1f5826', secret: 'secret', C: '02abcd' }] }
+};
+
+describe('backup files', () => {
+  test('round-trips a backup', () => {
+    expect(decryptBackup(encryptBackup(BACKUP, PASSPHRASE), PASSPHRASE)).toEqual(BACKUP);
+  });
+
+  test('refuses key derivation parameters it does not write', () => {
+    const file = JSON.parse(encryptBackup(BACKUP, PASSPHRASE));
+    for (const kdf of [{ N: 2 ** 24 }, { r: 64 }, { p: 16 }]) {
+      const tampered = JSON.stringify({ ...file, kdf: { ...file.kdf, ...kdf } });
+      expect(() => decryptBackup(tampered, PASSPHRASE)).toThrow(/key derivation parameters/);
+    }
+  });
+
+  test('refuses a backup whose contents have the wrong shape', () => {
+    const malformed = [
+      { ...BACKUP, mints: 'http://mint.regtest' },
+      { ...BACKUP, relays: [42] },
+      { ...BACKUP, proofs: { 'http://mint.regtest': [{ amount: '8' }] } }
+    ];
+    for (const backup of malformed) {
+      const content = encryptBackup(backup as unknown as WalletBackup, PASSPHRASE);
+      expect(() => decryptBackup(content, PASSPHRASE)).toThrow(/malformed/);
+    }
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, expect, test } from 'bun:test';
+import { CLI_COMMANDS, formatCommandUsage, parseCommandArgs } from '../src/cli';
+import { TOOL_OUTPUT_SCHEMAS } from '../src/schemas';
+import { parseAmount } from '../src/units';
+
+describe('command line arguments', () => {
+  test('maps positional arguments and flags onto tool arguments', () => {
+    expect(parseCommandArgs(CLI_COMMANDS.pay_lightning_address, ['carol@pay.regtest', '2.5', 'thanks', '--unit', 'usd'])).toEqual({
+      address: 'carol@pay.regtest',
+      amount: 2.5,
+      comment: 'thanks',
+      unit: 'usd'
+    });
+    expect(parseCommandArgs(CLI_COMMANDS.verify_wallet, ['--no-consolidate'])).toEqual({ consolidate: false });
+    expect(parseCommandArgs(CLI_COMMANDS.get_mint_info, ['http://mint'])).toEqual({ mintUrl: 'http://mint', refresh: true });
+    expect(parseCommandArgs(CLI_COMMANDS.rebalance, ['--targets', '{"a": 1}', '--min', '10', '--dry-run'])).toEqual({
+      targets: { a: 1 },
+      minTransfer: 10,
+      dryRun: true
+    });
+  });
+
+  test('rejects malformed amounts, unknown options and stray arguments', () => {
+    for (const amount of ['10abc', '0x10', '-5', '0', '1e3', '']) {
+      expect(() => parseAmount(amount)).toThrow(/Invalid amount/);
+    }
+    expect(parseAmount('0.001')).toBe(0.001);
+
+    expect(() => parseCommandArgs(CLI_COMMANDS.create_invoice, ['10abc'])).toThrow(/Invalid amount/);
+    expect(() => parseCommandArgs(CLI_COMMANDS.create_invoice, [])).toThrow(/Missing amount/);
+    expect(() => parseCommandArgs(CLI_COMMANDS.get_balance, ['--verbose'])).toThrow(/Unknown option/);
+    expect(() => parseCommandArgs(CLI_COMMANDS.get_balance, ['extra'])).toThrow(/Unexpected argument/);
+    expect(() => parseCommandArgs(CLI_COMMANDS.send_token, ['5', '--unit'])).toThrow(/needs a value/);
+    expect(() => parseCommandArgs(CLI_COMMANDS.list_transactions, ['--limit', '5x'])).toThrow(/not a whole number/);
+  });
+
+  test('every tool command names a tool with an output schema', () => {
+    for (const [name, command] of Object.entries(CLI_COMMANDS)) {
+      if (command.tool) expect(TOOL_OUTPUT_SCHEMAS[command.tool]).toBeDefined();
+      expect(formatCommandUsage(name)).toStartWith(name);
+    }
+  });
+});
@@ -0,0 +1,359 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { generateSecretKey, getPublicKey, nip19 } from 'nostr-tools';
+import { PaymentDeclinedError } from '../src/approval';
+import { FakeMint } from '../src/fakemint';
+import { RegtestNetwork, RegtestRecipient } from '../src/regtest';
+import { TestWallet, connectNwcClient, fund, startWallet, waitFor } from './harness';
+
+const TIMEOUT = 60000;
+
+let network: RegtestNetwork;
+let wallet: TestWallet;
+let peer: TestWallet;
+// Closed with the others: closing a wallet while its publishes are pending fails whichever test runs next
+let limited: TestWallet;
+let source: TestWallet;
+let restored: TestWallet;
+let carol: RegtestRecipient;
+
+beforeAll(async () => {
+  network = await RegtestNetwork.start();
+  network.install();
+  carol = network.createRecipient('carol');
+  wallet = await startWallet(network);
+  peer = await startWallet(network);
+  await fund(wallet, 1000, network.mintUrls[0]);
+}, TIMEOUT);
+
+afterAll(async () => {
+  await wallet?.close();
+  await peer?.close();
+  await limited?.close();
+  await source?.close();
+  await restored?.close();
+  await network?.stop();
+});
+
+describe('deposits and balances', () => {
+  test('reports the deposit per mint and in the deposit list', async () => {
+    const { balances, totals } = await wallet.expectCall('get_mint_balances');
+    expect(totals.sat).toBe(1000);
+    expect(balances[network.mintUrls[0]].sat).toBe(1000);
+
+    const { deposits } = await wallet.expectCall('list_deposits', { status: 'paid' });
+    expect(deposits).toHaveLength(1);
+    expect(deposits[0].amount).toBe(1000);
+  }, TIMEOUT);
+
+  test('converts fiat amounts at the regtest rates', async () => {
+    const { deposit, conversion } = await peer.expectCall('deposit', { amount: 0.1, unit: 'usd', mintUrl: network.mintUrls[1] });
+    // $100,000 per BTC
+    expect(deposit.amount).toBe(100);
+    expect(conversion.btcPrice).toBe(100_000);
+    await waitFor(async () => (await peer.expectCall('get_balance')).balance === 100);
+  }, TIMEOUT);
+});
+
+describe('lightning payments', () => {
+  test('decodes, quotes and pays an invoice', async () => {
+    const { bolt11 } = network.mints[1].createInvoice(21, 'coffee');
+
+    const { invoice } = await wallet.expectCall('decode_invoice', { bolt11 });
+    expect(invoice.amountSats).toBe(21);
+    expect(invoice.description).toBe('coffee');
+
+    const { quote } = await wallet.expectCall('quote_payment', { bolt11 });
+    expect(quote.amount).toBe(21);
+
+    const { balance: before } = await wallet.expectCall('get_balance');
+    const paid = await wallet.expectCall('pay', { bolt11 });
+    expect(paid.amount).toBe(21);
+    expect(paid.preimage).toBeTruthy();
+    // The fake mints return the whole fee reserve as change
+    const { balance: after } = await wallet.expectCall('get_balance');
+    expect(after).toBe(before - 21);
+  }, TIMEOUT);
+
+  test('pays a Lightning address', async () => {
+    const paid = await wallet.expectCall('pay_lightning_address', { address: carol.address, amount: 30, comment: 'thanks' });
+    expect(paid.address).toBe(carol.address);
+    expect(network.receivedBy('carol')).toBe(30);
+  }, TIMEOUT);
+
+  test('refuses to pay more than the balance', async () => {
+    const { bolt11 } = network.mints[0].createInvoice(1_000_000);
+    const { error } = await wallet.expectError('pay', { bolt11 });
+    expect(error.code).toBe('INSUFFICIENT_FUNDS');
+  }, TIMEOUT);
+
+  test('refuses an expired invoice', async () => {
+    const { bolt11 } = network.mints[1].createInvoice(5, 'too late', { expiry: 0 });
+    const { error } = await wallet.expectError('pay', { bolt11 });
+    expect(error.code).toBe('INVOICE_EXPIRED');
+  }, TIMEOUT);
+});
+
+describe('zaps', () => {
+  test('zaps a profile over NIP-57 and finds the receipt', async () => {
+    const before = network.receivedBy('carol');
+    const result = await wallet.expectCall('zap', { recipient: carol.npub, amount: 21, comment: 'gm' });
+    expect(result.legs).toHaveLength(1);
+    expect(result.legs[0].method).toBe('nip57');
+    expect(result.legs[0].receiptId).toBeTruthy();
+    expect(network.receivedBy('carol')).toBe(before + 21);
+  }, TIMEOUT);
+
+  test('resolves a NIP-05 recipient', async () => {
+    const before = network.receivedBy('carol');
+    await wallet.expectCall('zap', { recipient: carol.address, amount: 5 });
+    expect(network.receivedBy('carol')).toBe(before + 5);
+  }, TIMEOUT);
+
+  test('nutzaps a wallet with a mint list, which redeems it', async () => {
+    await wallet.wallet.startNutzapMonitor();
+    const { balance: before } = await wallet.expectCall('get_balance');
+
+    const result = await peer.expectCall('zap', { recipient: wallet.npub, amount: 10, comment: 'nutzap' });
+    expect(result.legs[0].method).toBe('nip61');
+
+    const { incomingZaps } = await waitFor(async () => {
+      const listed = await wallet.expectCall('list_incoming_zaps', { status: 'redeemed' });
+      return listed.incomingZaps.length > 0 && listed;
+    });
+    expect(incomingZaps[0].comment).toBe('nutzap');
+    expect((await wallet.expectCall('get_balance')).balance).toBe(before + 10);
+  }, TIMEOUT);
+});
+
+describe('ecash tokens', () => {
+  test('sends a token that another wallet receives', async () => {
+    const sent = await wallet.expectCall('send_token', { amount: 50, mintUrl: network.mintUrls[0], memo: 'lunch' });
+    expect(sent.amount).toBe(50);
+
+    const { balance: before } = await peer.expectCall('get_balance');
+    const received = await peer.expectCall('receive_token', { token: sent.token });
+    expect(received.amount).toBe(50);
+    expect((await peer.expectCall('get_balance')).balance).toBe(before + 50);
+
+    // The token is spent now, so it cannot be redeemed twice
+    const { error } = await wallet.expectError('receive_token', { token: sent.token });
+    expect(error.code).toBe('TOKEN_SPENT');
+  }, TIMEOUT);
+
+  test('verify_wallet finds nothing spent elsewhere', async () => {
+    const verification = await wallet.expectCall('verify_wallet', { consolidate: false });
+    expect(verification.after).toBe(verification.before);
+    expect(verification.mints.every((mint: any) => mint.spent === 0)).toBe(true);
+  }, TIMEOUT);
+
+  test('restore finds every seed-derived proof already in the wallet', async () => {
+    const { balance } = await wallet.expectCall('get_balance');
+    const restored = await wallet.expectCall('restore');
+    expect(restored.recovered).toBe(0);
+    expect((await wallet.expectCall('get_balance')).balance).toBe(balance);
+  }, TIMEOUT);
+});
+
+describe('seed recovery', () => {
+  test('restores consolidated proofs from the mnemonic alone', async () => {
+    source = await startWallet(network, { mints: [network.mintUrls[0]] });
+    // Four 1-sat proofs are enough for verify_wallet to consolidate them
+    for (let i = 0; i < 4; i++) await fund(source, 1, network.mintUrls[0]);
+    const verification = await source.expectCall('verify_wallet');
+    expect(verification.mints[0].consolidated).toBe(true);
+
+    // A new key, so no token events on the relays can bring the proofs back
+    const key = generateSecretKey();
+    restored = await startWallet(network, {
+      backup: {
+        ...source.wallet.exportBackup(),
+        nsec: nip19.nsecEncode(key),
+        npub: nip19.npubEncode(getPublicKey(key)),
+        encrypted: false,
+        proofs: {}
+      }
+    });
+    expect((await restored.expectCall('get_balance')).balance).toBe(4);
+    expect((await restored.expectCall('restore')).recovered).toBe(0);
+  }, TIMEOUT);
+});
+
+describe('mints', () => {
+  let extraMint: FakeMint;
+
+  beforeAll(async () => {
+    // Without a fee reserve no change is left behind on the mint when it is removed
+    extraMint = new FakeMint({ name: 'Extra mint', feeReserve: 0 });
+    await extraMint.start();
+  });
+
+  afterAll(async () => {
+    await extraMint?.stop();
+  });
+
+  test('shows mint info and health', async () => {
+    const { mintInfo } = await wallet.expectCall('get_mint_info', { mintUrl: network.mintUrls[0] });
+    expect(mintInfo.name).toBe('Regtest mint 1');
+
+    const { mints } = await wallet.expectCall('check_mints');
+    expect(mints.every((mint: any) => mint.reachable)).toBe(true);
+  }, TIMEOUT);
+
+  test('adds a mint and moves funds to it with rebalance', async () => {
+    await wallet.expectCall('add_mint', { mintUrl: extraMint.url });
+
+    const result = await wallet.expectCall('rebalance', {
+      targets: { [network.mintUrls[0]]: 50, [extraMint.url]: 50 },
+      minTransfer: 1
+    });
+    expect(result.transfers.every((transfer: any) => !transfer.error)).toBe(true);
+    const { balances } = await wallet.expectCall('get_mint_balances');
+    expect(balances[extraMint.url]?.sat).toBeGreaterThan(0);
+  }, TIMEOUT);
+
+  test('removes a mint, moving its funds elsewhere', async () => {
+    const { balance: before } = await wallet.expectCall('get_balance');
+    const removed = await wallet.expectCall('remove_mint', { mintUrl: extraMint.url, targetMint: network.mintUrls[0] });
+    expect(removed.remaining).toBe(0);
+
+    const { balances, totals } = await wallet.expectCall('get_mint_balances');
+    expect(balances[extraMint.url]).toBeUndefined();
+    expect(totals.sat).toBe(before);
+  }, TIMEOUT);
+});
+
+describe('ledger', () => {
+  test('lists and exports transactions', async () => {
+    const { transactions } = await wallet.expectCall('list_transactions', { type: 'zap' });
+    expect(transactions.length).toBeGreaterThanOrEqual(2);
+
+    const exported = await wallet.expectCall('export_transactions', { format: 'csv' });
+    expect(exported.data.split('\n')).toHaveLength(exported.count + 1);
+  }, TIMEOUT);
+});
+
+describe('relays and connections', () => {
+  test('adds and removes a relay', async () => {
+    const { relay } = await wallet.expectCall('add_relay', { url: 'wss://relay9.regtest' });
+    expect(relay.url).toContain('relay9.regtest');
+    await wallet.expectCall('remove_relay', { url: 'wss://relay9.regtest' });
+
+    const { relays } = await wallet.expectCall('list_relays');
+    expect(relays.map((status: any) => status.url).some((url: string) => url.includes('relay9'))).toBe(false);
+  }, TIMEOUT);
+
+  test('creates, lists and revokes an NWC connection', async () => {
+    const { connection, uri } = await wallet.expectCall('create_nwc_connection', { name: 'tests', budget: 100 });
+    expect(uri).toStartWith('nostr+walletconnect://');
+
+    const { connections } = await wallet.expectCall('list_nwc_connections');
+    expect(connections.map((item: any) => item.id)).toContain(connection.id);
+
+    await wallet.expectCall('revoke_nwc_connection', { id: connection.id });
+  }, TIMEOUT);
+
+  test('lets only one of two simultaneous NWC payments through a connection budget that fits one', async () => {
+    const { connection, uri } = await wallet.expectCall('create_nwc_connection', { name: 'budgeted', budget: 40, budgetPeriod: 'daily' });
+    await wallet.wallet.startNwcService();
+    const client = await connectNwcClient(network, uri);
+    try {
+      const invoices = [network.mints[1].createInvoice(30), network.mints[1].createInvoice(30)];
+      const responses = await Promise.all(invoices.map(({ bolt11 }) => client.request('pay_invoice', { invoice: bolt11 })));
+
+      expect(responses.filter((response) => response.result?.preimage)).toHaveLength(1);
+      expect(responses.filter((response) => response.error).map((response) => response.error!.code)).toEqual(['QUOTA_EXCEEDED']);
+    } finally {
+      client.close();
+      await wallet.expectCall('revoke_nwc_connection', { id: connection.id });
+    }
+  }, TIMEOUT);
+
+  test('shows a client limited to some tools only the resources those tools cover', async () => {
+    expect(await wallet.listResources()).toContain('wallet://transactions');
+
+    const scoped = await wallet.connect(['get_balance']);
+    try {
+      expect(await scoped.listResources()).toEqual(['wallet://balance']);
+      expect((await scoped.readResource('wallet://balance')).balance).toBe((await wallet.expectCall('get_balance')).balance);
+      await expect(scoped.readResource('wallet://transactions')).rejects.toThrow(/not allowed/);
+      await expect(scoped.readResource(`wallet://mints/${encodeURIComponent(network.mintUrls[0])}/info`)).rejects.toThrow(/not allowed/);
+    } finally {
+      await scoped.close();
+    }
+  }, TIMEOUT);
+
+  test('offers approve_payment only to a client allowed it', async () => {
+    expect((await wallet.expectError('approve_payment')).error.code).toBe('PERMISSION_DENIED');
+
+    const dashboard = await wallet.connect(['approve_payment']);
+    try {
+      const { pendingPayments } = await dashboard.expectCall('approve_payment');
+      expect(pendingPayments).toHaveLength(0);
+      expect((await dashboard.expectError('approve_payment', { paymentId: 'missing' })).error.code).toBe('NOT_FOUND');
+      expect((await dashboard.expectError('get_balance')).error.code).toBe('PERMISSION_DENIED');
+    } finally {
+      await dashboard.close();
+    }
+  }, TIMEOUT);
+});
+
+describe('spending policy', () => {
+  beforeAll(async () => {
+    limited = await startWallet(network, { policy: { dailyBudget: 40, approvalThreshold: 30 } });
+    await fund(limited, 100, network.mintUrls[0]);
+  }, TIMEOUT);
+
+  test('declines a Lightning address payment that needs approval when nobody can give it', async () => {
+    const before = network.receivedBy('carol');
+    await expect(limited.wallet.payLightningAddress(carol.address, 35, '', { unattended: true }))
+      .rejects.toBeInstanceOf(PaymentDeclinedError);
+    expect(network.receivedBy('carol')).toBe(before);
+    expect(limited.wallet.listPendingPayments()).toHaveLength(0);
+  }, TIMEOUT);
+
+  test('declines a zap that needs approval when nobody can give it', async () => {
+    await expect(limited.wallet.zap(carol.npub, 35, '', { unattended: true })).rejects.toBeInstanceOf(PaymentDeclinedError);
+    expect(limited.wallet.listPendingPayments()).toHaveLength(0);
+  }, TIMEOUT);
+
+  test('declines a token that needs approval when nobody can give it', async () => {
+    await expect(limited.wallet.sendToken(35, undefined, undefined, { unattended: true })).rejects.toBeInstanceOf(PaymentDeclinedError);
+    expect(limited.wallet.listPendingPayments()).toHaveLength(0);
+    expect((await limited.expectCall('get_balance')).balance).toBe(100);
+  }, TIMEOUT);
+
+  test('lets only one of two simultaneous payments through a budget that fits one', async () => {
+    const invoices = [network.mints[0].createInvoice(30), network.mints[0].createInvoice(30)];
+    const results = await Promise.all(invoices.map(({ bolt11 }) => limited.call('pay', { bolt11 })));
+
+    const rejected = results.filter((result: any) => result.isError);
+    expect(rejected).toHaveLength(1);
+    expect(rejected[0].structuredContent.error.code).toBe('POLICY_REJECTED');
+    expect(rejected[0].structuredContent.rejection.rule).toBe('daily_budget');
+    expect((await limited.expectCall('get_balance')).balance).toBe(70);
+  }, TIMEOUT);
+});
+
+describe('error codes', () => {
+  test('cannot resolve an unknown Lightning address or NIP-05 name', async () => {
+    const paid = await wallet.expectError('pay_lightning_address', { address: `nobody@${network.domain}`, amount: 10 });
+    expect(paid.error.code).toBe('RECIPIENT_UNRESOLVABLE');
+
+    const zapped = await wallet.expectError('zap', { recipient: `nobody@${network.domain}`, amount: 10 });
+    expect(zapped.error.code).toBe('RECIPIENT_UNRESOLVABLE');
+  }, TIMEOUT);
+
+  test('refuses a mint it cannot reach', async () => {
+    const { error } = await wallet.expectError('add_mint', { mintUrl: 'http://127.0.0.1:1' });
+    expect(error.code).toBe('MINT_UNREACHABLE');
+  }, TIMEOUT);
+
+  test('reports invalid arguments and unknown ids', async () => {
+    expect((await wallet.expectError('deposit', { amount: -5 })).error.code).toBe('INVALID_ARGUMENT');
+    expect((await wallet.expectError('check_deposit', { depositId: 'missing' })).error.code).toBe('NOT_FOUND');
+  }, TIMEOUT);
+
+  test('rejects unknown tools at the protocol level', async () => {
+    await expect(wallet.call('no_such_tool')).rejects.toThrow(/Unknown tool/);
+  }, TIMEOUT);
+});
@@ -0,0 +1,184 @@
+import { writeFileSync } from 'fs';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { Event, finalizeEvent, generateSecretKey, getPublicKey, nip19, nip44 } from 'nostr-tools';
+import { MCPServer, MCPWallet } from '../wallet';
+import { WalletBackup } from '../src/backup';
+import { SpendingPolicy } from '../src/policy';
+import { REGTEST_RATES, RegtestNetwork } from '../src/regtest';
+
+/**
+ * A wallet on a regtest network, driven through an MCP client the way
+ * an agent would use it.
+ */
+export interface TestClient {
+  call(name: string, args?: Record<string, unknown>): Promise<any>;
+  // Calls a tool and returns its structured content, failing unless it succeeded
+  expectCall(name: string, args?: Record<string, unknown>): Promise<any>;
+  // Calls a tool and returns its structured content, failing unless it returned an error
+  expectError(name: string, args?: Record<string, unknown>): Promise<any>;
+  listResources(): Promise<string[]>;
+  // Reads a resource and parses its JSON
+  readResource(uri: string): Promise<any>;
+  close(): Promise<void>;
+}
+
+export interface TestWallet extends TestClient {
+  wallet: MCPWallet;
+  npub: string;
+  // Another client on the same wallet, limited to `tools` like an HTTP token, e.g. a person's approval dashboard
+  connect(tools: string[]): Promise<TestClient>;
+}
+
+export interface TestWalletOptions {
+  // Mints to use instead of all of the network's
+  mints?: string[];
+  policy?: SpendingPolicy;
+  // Imported instead of starting with a fresh key
+  backup?: WalletBackup;
+}
+
+/**
+ * Starts a wallet with a fresh key in a temporary directory, using the
+ * network's relays and mints.
+ */
+export async function startWallet(network: RegtestNetwork, options: TestWalletOptions = {}): Promise<TestWallet> {
+  const location = network.createWalletLocation();
+  if (options.policy) {
+    // The policy is only read from the wallet file, which fills in the rest when it first loads
+    writeFileSync(location.walletFile, JSON.stringify({ policy: options.policy }));
+  }
+  const wallet = new MCPWallet(location, {
+    relays: network.relays,
+    mints: options.mints || network.mintUrls,
+    fiat: { rates: REGTEST_RATES }
+  });
+  if (options.backup) {
+    await wallet.importBackup(options.backup, '');
+  } else {
+    await wallet.initialize(nip19.nsecEncode(generateSecretKey()));
+  }
+
+  const client = await connectClient(wallet);
+  return {
+    ...client,
+    wallet,
+    npub: wallet.getNpub()!,
+    connect: (tools) => connectClient(wallet, tools),
+    close: async () => {
+      await client.close();
+      wallet.close();
+    }
+  };
+}
+
+async function connectClient(wallet: MCPWallet, allowedTools?: string[]): Promise<TestClient> {
+  const server = new MCPServer(wallet, { allowedTools });
+  const client = new Client({ name: 'mcp-money-tests', version: '1.0.0' });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  // Caches the output schemas, so every result is validated against its tool's schema
+  await client.listTools();
+
+  const call = (name: string, args: Record<string, unknown> = {}) => client.callTool({ name, arguments: args });
+  return {
+    call,
+    expectCall: async (name, args) => {
+      const result: any = await call(name, args);
+      if (result.isError || result.structuredContent?.success === false) {
+        throw new Error(`${name} failed: ${result.content?.[0]?.text}`);
+      }
+      return result.structuredContent;
+    },
+    expectError: async (name, args) => {
+      const result: any = await call(name, args);
+      if (!result.isError) {
+        throw new Error(`${name} succeeded: ${result.content?.[0]?.text}`);
+      }
+      return result.structuredContent;
+    },
+    listResources: async () => (await client.listResources()).resources.map((resource) => resource.uri),
+    readResource: async (uri) => {
+      const { contents } = await client.readResource({ uri });
+      return JSON.parse(contents[0].text as string);
+    },
+    close: async () => {
+      await client.close();
+      await server.close();
+    }
+  };
+}
+
+/**
+ * Polls until `check` returns something truthy, for things that settle
+ * in the background such as deposits.
+ */
+export async function waitFor<T>(check: () => Promise<T> | T, timeout = 15000, interval = 200): Promise<T> {
+  const deadline = Date.now() + timeout;
+  for (;;) {
+    const value = await check();
+    if (value) return value;
+    if (Date.now() > deadline) throw new Error(`Timed out after ${timeout} ms`);
+    await new Promise((resolve) => setTimeout(resolve, interval));
+  }
+}
+
+/**
+ * Deposits `amount` sats into a mint and waits for the proofs to be
+ * minted. The fake mints mark every invoice paid as soon as it is issued.
+ */
+export async function fund(wallet: TestWallet, amount: number, mintUrl?: string): Promise<void> {
+  const { balance } = await wallet.expectCall('get_balance');
+  const { deposit } = await wallet.expectCall('deposit', { amount, mintUrl });
+  await waitFor(async () => {
+    const { deposit: record } = await wallet.expectCall('check_deposit', { depositId: deposit.depositId });
+    return record.status === 'paid';
+  });
+  await waitFor(async () => (await wallet.expectCall('get_balance')).balance >= balance + amount);
+}
+
+/**
+ * A Nostr Wallet Connect app talking to a wallet over the regtest
+ * relays with the secret from a connection string.
+ */
+export interface NwcTestClient {
+  // Sends a NIP-47 request and resolves with the decrypted response
+  request(method: string, params?: Record<string, unknown>): Promise<{ result?: any; error?: { code: string; message: string } }>;
+  close(): void;
+}
+
+export async function connectNwcClient(network: RegtestNetwork, uri: string): Promise<NwcTestClient> {
+  const url = new URL(uri.replace('nostr+walletconnect://', 'https://'));
+  const servicePubkey = url.hostname;
+  const secret = Uint8Array.from(Buffer.from(url.searchParams.get('secret')!, 'hex'));
+  const conversationKey = nip44.getConversationKey(secret, servicePubkey);
+  const relayUrl = url.searchParams.get('relay')!;
+
+  // Responses are ephemeral events, so only a live subscription sees them
+  const Socket = network.relayNetwork.webSocketClass();
+  const socket = new Socket(relayUrl);
+  await new Promise((resolve) => socket.addEventListener('open', resolve));
+  const waiting = new Map<string, (response: any) => void>();
+  socket.addEventListener('message', ({ data }: { data: string }) => {
+    const [type, , event] = JSON.parse(data) as [string, string, Event];
+    const requestId = type === 'EVENT' ? event.tags.find((tag) => tag[0] === 'e')?.[1] : undefined;
+    if (requestId) waiting.get(requestId)?.(JSON.parse(nip44.decrypt(event.content, conversationKey)));
+  });
+  socket.send(JSON.stringify(['REQ', 'responses', { kinds: [23195], '#p': [getPublicKey(secret)] }]));
+
+  const request = (method: string, params: Record<string, unknown> = {}) => {
+    const event = finalizeEvent({
+      kind: 23194,
+      created_at: Math.floor(Date.now() / 1000),
+      tags: [['p', servicePubkey], ['encryption', 'nip44_v2']],
+      content: nip44.encrypt(JSON.stringify({ method, params }), conversationKey)
+    }, secret);
+    const response = new Promise<any>((resolve) => waiting.set(event.id, resolve));
+    network.relayNetwork.relay(relayUrl).publish(event);
+    return response;
+  };
+
+  // Requests sent before the service's subscription reaches the relay are never seen, so ping until one is answered
+  await waitFor(() => Promise.race([request('get_info'), new Promise((resolve) => setTimeout(resolve, 500))]));
+  return { request, close: () => socket.close() };
+}
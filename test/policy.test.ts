@@ -0,0 +1,43 @@
+import { describe, expect, test } from 'bun:test';
+import { PolicyViolationError, SpendingPolicy, SpendingPolicyEngine } from '../src/policy';
+
+const ALICE = 'alice@pay.regtest';
+
+function rejectedRule(engine: SpendingPolicyEngine, amount: number, recipients: string[] | null): string | undefined {
+  try {
+    engine.check(amount, recipients);
+    return undefined;
+  } catch (error) {
+    if (error instanceof PolicyViolationError) return error.rejection.rule;
+    throw error;
+  }
+}
+
+describe('spending policy for bearer tokens', () => {
+  test('ignores the recipient rules but keeps the amount limits and budgets', () => {
+    const policy: SpendingPolicy = {
+      allowedRecipients: [ALICE],
+      approveNewRecipients: true,
+      maxPerPayment: 50,
+      dailyBudget: 80
+    };
+    const engine = new SpendingPolicyEngine(policy, []);
+
+    expect(rejectedRule(engine, 10, ['bob@pay.regtest'])).toBe('recipient_not_allowed');
+    expect(engine.approvalReason(10, [ALICE])).toMatch(/never been paid/);
+
+    expect(rejectedRule(engine, 40, null)).toBeUndefined();
+    expect(engine.approvalReason(40, null)).toBeUndefined();
+    expect(rejectedRule(engine, 60, null)).toBe('max_per_payment');
+    expect(rejectedRule(engine, 50, null)).toBe('daily_budget');
+  });
+
+  test('applies the approval threshold and can be switched off', () => {
+    const engine = new SpendingPolicyEngine({ approvalThreshold: 20 }, []);
+    expect(engine.approvalReason(30, null)).toMatch(/approval threshold/);
+
+    const disabled = new SpendingPolicyEngine({ allowSendToken: false }, []);
+    expect(rejectedRule(disabled, 1, null)).toBe('send_token_disabled');
+    expect(rejectedRule(disabled, 1, [ALICE])).toBeUndefined();
+  });
+});
@@ -1,42 +1,227 @@
 #!/usr/bin/env node
 
-import NDK, { NDKKind, NDKCashuMintList } from '@nostr-dev-kit/ndk';
+import NDK, { NDKKind, NDKCashuMintList, NDKNutzap, NDKRelay, NDKRelaySet, NdkNutzapStatus, normalizeUrl } from '@nostr-dev-kit/ndk';
 import { NDKCashuWallet, NDKWalletBalance, NDKCashuDeposit } from '@nostr-dev-kit/ndk-wallet';
 import { NDKZapper, NDKPrivateKeySigner } from '@nostr-dev-kit/ndk';
 import { generateSecretKey, getPublicKey, nip19 } from 'nostr-tools';
-import { writeFileSync, readFileSync, existsSync } from 'fs';
+import { readFileSync, existsSync } from 'fs';
+import { AsyncLocalStorage } from 'async_hooks';
+import { GetInfoResponse, Proof, getDecodedToken, getEncodedToken } from '@cashu/cashu-ts';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
 import {
   CallToolRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  McpError,
+  ErrorCode,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
+import { DecodedInvoice, decodeInvoice, isInvoiceExpired } from './src/bolt11';
+import { fetchLnurlInvoice } from './src/lnurl';
+import { PaymentQuote, PaymentResult, formatInvoice, formatPaymentQuote, formatPaymentResult } from './src/payments';
+import { SpendingPolicy, SpendingPolicyEngine, SpendRecord, SpendReservation, PolicyViolationError, PolicyRejection } from './src/policy';
+import {
+  ApprovalHandler,
+  ApprovalQueue,
+  ApprovalPendingError,
+  PaymentApprovalRequest,
+  PaymentDeclinedError,
+  PendingPayment,
+  describeApprovalRequest,
+} from './src/approval';
+import {
+  Ledger,
+  LedgerEntry,
+  LedgerEntryInput,
+  LedgerFilter,
+  TRANSACTION_TYPES,
+  exportTransactions,
+  formatTransaction,
+  parseLedgerFilter,
+} from './src/ledger';
+import { DepositRecord, DepositStatus, DepositTracker, formatDeposit } from './src/deposits';
+import { IncomingZapRecord, NutzapStore, WalletNutzapMonitor, formatIncomingZap } from './src/nutzaps';
+import {
+  PASSPHRASE_ENV,
+  PassphraseError,
+  decryptNcryptsec,
+  encryptNsec,
+  promptNewPassphrase,
+  promptPassphrase,
+  resolvePassphrase,
+  writePrivateFile
+} from './src/keystore';
+import { BUNKER_ENV, connectBunker, parseBunkerUri } from './src/bunker';
+import { WalletError, WalletErrorCode, errorCode, errorMessage } from './src/errors';
+import { TOOL_OUTPUT_SCHEMAS } from './src/schemas';
+import { CLI_COMMANDS, formatCommandHelp, formatCommandUsage, formatUsage, parseCommandArgs } from './src/cli';
+import { MeltResult, MintTransfer, formatMintTransfer, meltFromMint, prepareTransfer } from './src/transfer';
+import {
+  BALANCE_URI,
+  MINTS_URI,
+  RESOURCE_TRANSACTION_LIMIT,
+  TRANSACTIONS_URI,
+  WALLET_RESOURCES,
+  WALLET_RESOURCE_TEMPLATES,
+  WalletChange,
+  changedUris,
+  mintInfoUri,
+  parseMintInfoUri,
+  resourceTool
+} from './src/resources';
+import { HTTP_TOKEN_ENV, HttpConfig, HttpToken, serveHttp } from './src/http';
+import {
+  NWC_METHODS,
+  NwcBackend,
+  NwcBudgetPeriod,
+  NwcConfig,
+  NwcConnection,
+  NwcError,
+  NwcMethod,
+  NwcService,
+  NwcTransaction,
+  connectionUri,
+  createNwcConnection,
+  formatNwcConnection,
+  ledgerToNwcTransactions,
+  selectNwcTransactions
+} from './src/nwc';
+import {
+  RelayStatus,
+  discoverRelays,
+  formatRelayStatus,
+  mergeRelays,
+  normalizeRelay,
+  relayStatus,
+  sameRelay,
+  walletEventRelays
+} from './src/relays';
+import { MintVerification, WalletVerification, formatWalletVerification, verifyMintProofs } from './src/verify';
+import {
+  MintRestore,
+  WalletRestore,
+  WalletSeed,
+  formatWalletRestore,
+  generateSeedMnemonic,
+  scanMintProofs,
+  seedFromMnemonic,
+  storeUnspentProofs,
+  useDeterministicSecrets
+} from './src/seed';
+import { WalletBackup, decryptBackup, encryptBackup, formatBackupSummary } from './src/backup';
+import { ZapLegResult, ZapResult, findZapReceipt, formatZapResult, planZapSplits, resolveZapTarget } from './src/zaps';
+import { MultiPathQuote, describeBalanceSplit, payMultiPath, quoteMultiPath } from './src/multipath';
+import {
+  Conversion,
+  FiatConfig,
+  FiatValue,
+  RateProvider,
+  convertToSats,
+  createRateProvider,
+  formatConversion,
+  formatUnitBalances,
+  satsToFiat,
+  totalUnitBalances
+} from './src/units';
+import { RebalanceMove, RebalanceOptions, RebalancePlan, formatRebalancePlan, planRebalance } from './src/rebalance';
+import {
+  CachedMintInfo,
+  MintHealth,
+  MintInfo,
+  fetchKeysets,
+  fetchMintInfo,
+  formatMintHealth,
+  formatMintInfo,
+  probeMint,
+  supportsMultiPath
+} from './src/mints';
+import {
+  WalletLocation,
+  listProfiles,
+  profileExists,
+  profileWalletFile,
+  ledgerFileFor,
+  resolveWalletLocation,
+  setActiveProfile,
+  validateProfileName
+} from './src/profiles';
+import { REGTEST_RATES, RegtestNetwork } from './src/regtest';
+
+const DEFAULT_RELAYS = [
+  'wss://relay.damus.io',
+  'wss://nos.lol',
+  'wss://relay.nostr.band',
+  'wss://nostr.mutinywallet.com'
+];
+
+const DEFAULT_MINTS = [
+  'https://mint.coinos.io',
+  'https://mint.lnvoltz.com',
+  'https://mint.chorus.community'
+];
+
+/**
+ * The relays, mints and fiat settings a new wallet file starts with.
+ */
+interface WalletDefaults {
+  relays: string[];
+  mints: string[];
+  fiat?: FiatConfig;
+}
 
-const WALLET_FILE = '.wallet.json';
+const UNIT_DESCRIPTION = 'Unit of amount: sat (default), msat, btc, or a fiat currency such as usd or eur, converted to sats at the current rate';
 
 interface WalletData {
-  nsec: string;
+  // Only written to disk while the wallet is unencrypted; absent when a bunker signs for us
+  nsec?: string;
+  ncryptsec?: string;
+  // NIP-46 remote signer and the local key of our session with it
+  bunker?: string;
+  bunkerClientKey?: string;
   npub: string;
   balance: number;
   relays: string[];
+  // Relays taken out with remove_relay, so startup discovery does not add them back
+  removedRelays?: string[];
   mints: string[];
   mintInfoCache: Record<string, CachedMintInfo>;
+  policy?: SpendingPolicy;
+  spendHistory?: SpendRecord[];
+  knownRecipients?: string[];
+  deposits?: Record<string, DepositRecord>;
+  nutzaps?: Record<string, IncomingZapRecord>;
+  fiat?: FiatConfig;
+  http?: HttpConfig;
+  nwc?: NwcConfig;
+  seed?: WalletSeed;
 }
 
-interface CachedMintInfo {
-  info: MintInfo;
-  timestamp: number;
+interface RemoveMintResult {
+  mint: string;
+  transfer?: MintTransfer;
+  // Sats left on the removed mint, e.g. because they could not cover the fee reserve
+  remaining: number;
 }
 
-interface MintInfo {
-  name?: string;
-  pubkey?: string;
-  version?: string;
-  description?: string;
-  description_long?: string;
-  contact?: Array<{ method: string; info: string }>;
-  motd?: string;
-  nuts?: Record<string, any>;
+interface RebalanceResult {
+  plan: RebalancePlan;
+  transfers: Array<RebalanceMove & { transfer?: MintTransfer; error?: string }>;
+}
+
+interface PaymentOptions {
+  // Set when the payment has already been approved by a human
+  approved?: boolean;
+  // Who the invoice came from, e.g. a Lightning address, checked against the policy along with the payee
+  recipient?: string;
+  // Set when nobody can be asked, e.g. for NWC requests; payments that need approval are declined
+  unattended?: boolean;
+  // Budget the caller already reserved for this payment, and releases itself
+  reservation?: SpendReservation;
 }
 
 class MCPWallet {
@@ -44,19 +229,91 @@ class MCPWallet {
   private wallet: NDKCashuWallet | null = null;
   private walletData: WalletData | null = null;
   private mintInfoCache = new Map<string, CachedMintInfo>();
+  private policy: SpendingPolicyEngine | null = null;
+  private approvalHandler: ApprovalHandler | null = null;
+  private approvals = new ApprovalQueue();
+  private walletFile: string;
+  private ledger: Ledger;
+  private deposits: DepositTracker | null = null;
+  private nutzapStore: NutzapStore | null = null;
+  private nutzapMonitor: WalletNutzapMonitor | null = null;
+  private nwcService: NwcService | null = null;
+  // NIP-65 relays the user only reads from; wallet events are not published there
+  private readOnlyRelays: string[] = [];
+  // NUT-13 mnemonic, held in memory only; the wallet file has it encrypted to our key
+  private mnemonic: string | null = null;
+  private rates: RateProvider = createRateProvider();
+  private keysetUnits = new Map<string, string>();
+  private changeListeners = new Set<(change: WalletChange) => void>();
+
+  constructor(location: WalletLocation, private defaults: WalletDefaults = { relays: DEFAULT_RELAYS, mints: DEFAULT_MINTS }) {
+    this.walletFile = location.walletFile;
+    this.ledger = new Ledger(location.ledgerFile, () => this.notifyChange({ resource: 'transactions' }));
+  }
 
-  async initialize(nsecOverride?: string): Promise<void> {
-    await this.loadOrCreateWallet(nsecOverride);
+  async initialize(nsecOverride?: string, bunkerOverride?: string): Promise<void> {
+    await this.open(nsecOverride, bunkerOverride);
+    await this.start();
+  }
+
+  /**
+   * Connects to relays and mints once the wallet data is loaded.
+   */
+  private async start(): Promise<void> {
+    this.rates = createRateProvider(this.walletData?.fiat);
+    this.setupPolicy();
     await this.setupNDK();
+    await this.setupSeed();
     await this.setupWallet();
+    this.setupDeposits();
+  }
+
+  /**
+   * Loads the wallet file, unlocking the key if it is encrypted, without
+   * connecting to relays or mints.
+   */
+  async open(nsecOverride?: string, bunkerOverride?: string): Promise<void> {
+    await this.loadOrCreateWallet(nsecOverride, bunkerOverride);
+
+    if (this.walletData?.bunker) {
+      if (this.walletData.nsec || this.walletData.ncryptsec) {
+        console.error(`Warning: ${this.walletFile} still holds a local key, which is not used while a bunker is configured`);
+      }
+    } else if (!this.walletData?.ncryptsec) {
+      console.error(`Warning: the wallet key is stored unencrypted in ${this.walletFile}; run encrypt_wallet to protect it`);
+    }
   }
 
-  private async loadOrCreateWallet(nsecOverride?: string): Promise<void> {
+  private async loadOrCreateWallet(nsecOverride?: string, bunkerOverride?: string): Promise<void> {
+    const explicitBunker = this.resolveBunker(nsecOverride, bunkerOverride);
+
     try {
       // Load existing wallet from config file
       let walletFromFile: WalletData | null = null;
-      if (existsSync(WALLET_FILE)) {
-        walletFromFile = JSON.parse(readFileSync(WALLET_FILE, 'utf8'));
+      if (existsSync(this.walletFile)) {
+        walletFromFile = JSON.parse(readFileSync(this.walletFile, 'utf8'));
+      }
+      // Loaded before anything is saved, since saveWallet writes the cache back
+      this.mintInfoCache = new Map(Object.entries(walletFromFile?.mintInfoCache || {}));
+
+      // A bunker in the config file only applies if no nsec was given explicitly
+      const bunker = explicitBunker || (!nsecOverride && !process.env.NSEC ? walletFromFile?.bunker : undefined);
+      if (bunker) {
+        // The identity key stays with the remote signer, so there is nothing to unlock or generate
+        this.walletData = walletFromFile || this.createBunkerWallet(bunker);
+        if (this.walletData.bunker !== bunker) {
+          this.walletData.bunker = bunker;
+          delete this.walletData.bunkerClientKey;
+        }
+        this.saveWallet();
+        return;
+      }
+
+      // New wallets are encrypted from the start when a passphrase is set
+      let passphrase = walletFromFile ? undefined : process.env[PASSPHRASE_ENV];
+      if (walletFromFile?.ncryptsec) {
+        passphrase = await resolvePassphrase();
+        walletFromFile.nsec = decryptNcryptsec(walletFromFile.ncryptsec, passphrase);
       }
       
       // Apply priority order for nsec: 1) CLI arg, 2) env var, 3) config file
@@ -66,23 +323,56 @@ class MCPWallet {
         // Use existing wallet if nsec matches
         this.walletData = walletFromFile;
       } else {
-        // Create new wallet or update existing with new nsec
-        this.walletData = this.createNewWallet(resolvedNsec);
-        if (walletFromFile) {
-          // Preserve other wallet data (mints, etc.) when updating nsec
-          this.walletData.relays = walletFromFile.relays;
-          this.walletData.mints = walletFromFile.mints;
-          this.walletData.mintInfoCache = walletFromFile.mintInfoCache;
+        // Create new wallet or update existing with new nsec, keeping everything that did not
+        // belong to the old key: its encrypted copy, bunker session, cached balance and the seed
+        // encrypted to it. Whatever the file lacks comes from the defaults.
+        const {
+          nsec: _nsec,
+          ncryptsec: _ncryptsec,
+          npub: _npub,
+          bunker: _bunker,
+          bunkerClientKey: _bunkerClientKey,
+          balance: _balance,
+          seed: _seed,
+          ...preserved
+        } = walletFromFile || {} as Partial<WalletData>;
+        this.walletData = { ...this.createNewWallet(resolvedNsec), ...preserved };
+        if (passphrase) {
+          this.walletData.ncryptsec = encryptNsec(resolvedNsec, passphrase);
         }
         this.saveWallet();
       }
     } catch (error) {
+      // Never replace an encrypted wallet just because it could not be unlocked
+      if (error instanceof PassphraseError) throw error;
+
       console.error('Error loading wallet:', error);
-      this.walletData = this.createNewWallet(nsecOverride);
+      this.walletData = explicitBunker ? this.createBunkerWallet(explicitBunker) : this.createNewWallet(nsecOverride);
       this.saveWallet();
     }
   }
 
+  /**
+   * Returns the bunker URI given on the command line or in the
+   * environment. Like the nsec, the CLI wins over the environment, and a
+   * key and a bunker given at the same level are rejected.
+   */
+  private resolveBunker(cliNsec?: string, cliBunker?: string): string | undefined {
+    if (cliNsec && cliBunker) {
+      throw new Error('Use either --nsec or --bunker, not both');
+    }
+    if (cliNsec) return undefined;
+
+    const envBunker = process.env[BUNKER_ENV];
+    if (!cliBunker && process.env.NSEC && envBunker) {
+      throw new Error(`Set either NSEC or ${BUNKER_ENV}, not both`);
+    }
+
+    const bunker = cliBunker || (process.env.NSEC ? undefined : envBunker);
+    if (bunker) parseBunkerUri(bunker);
+    return bunker;
+  }
+
   private resolveNsec(cliNsec?: string, configNsec?: string): string {
     // Priority: 1) CLI arg, 2) env var, 3) config file, 4) generate new
     return cliNsec || process.env.NSEC || configNsec || nip19.nsecEncode(generateSecretKey());
@@ -97,18 +387,26 @@ class MCPWallet {
       nsec,
       npub,
       balance: 0,
-      relays: [
-        'wss://relay.damus.io',
-        'wss://nos.lol',
-        'wss://relay.nostr.band',
-        'wss://nostr.mutinywallet.com'
-      ],
-      mints: [
-        'https://mint.coinos.io',
-        'https://mint.lnvoltz.com',
-        'https://mint.chorus.community'
-      ],
-      mintInfoCache: {}
+      relays: [...this.defaults.relays],
+      mints: [...this.defaults.mints],
+      mintInfoCache: {},
+      fiat: this.defaults.fiat
+    };
+  }
+
+  /**
+   * Creates wallet data for an identity held by a NIP-46 remote signer.
+   * The npub is filled in once the signer has connected.
+   */
+  private createBunkerWallet(bunker: string): WalletData {
+    return {
+      npub: '',
+      bunker,
+      balance: 0,
+      relays: [...this.defaults.relays],
+      mints: [...this.defaults.mints],
+      mintInfoCache: {},
+      fiat: this.defaults.fiat
     };
   }
 
@@ -116,27 +414,449 @@ class MCPWallet {
     if (!this.walletData) return;
     
     this.walletData.mintInfoCache = Object.fromEntries(this.mintInfoCache);
-    writeFileSync(WALLET_FILE, JSON.stringify(this.walletData, null, 2));
+
+    // Once the key is encrypted the plaintext nsec must not reach the disk
+    const { nsec: _nsec, ...withoutKey } = this.walletData;
+    const data = this.walletData.ncryptsec ? withoutKey : this.walletData;
+    writePrivateFile(this.walletFile, JSON.stringify(data, null, 2));
+  }
+
+  getWalletFile(): string {
+    return this.walletFile;
+  }
+
+  getNpub(): string | undefined {
+    return this.walletData?.npub || undefined;
+  }
+
+  isEncrypted(): boolean {
+    return !!this.walletData?.ncryptsec;
+  }
+
+  /**
+   * Encrypts the wallet key with a passphrase (NIP-49), removing the
+   * plaintext nsec from the wallet file.
+   */
+  encryptWallet(passphrase: string): void {
+    if (!this.walletData) throw new Error('Wallet not initialized');
+    if (!this.walletData.nsec) {
+      throw new Error('Wallet uses a remote signer (bunker); there is no local key to encrypt');
+    }
+    if (this.walletData.ncryptsec) {
+      throw new Error('Wallet is already encrypted; use change_passphrase to change the passphrase');
+    }
+
+    this.walletData.ncryptsec = encryptNsec(this.walletData.nsec, passphrase);
+    this.saveWallet();
+  }
+
+  /**
+   * Re-encrypts the wallet key with a new passphrase. The wallet must
+   * already have been unlocked with the current one.
+   */
+  changePassphrase(passphrase: string): void {
+    if (!this.walletData) throw new Error('Wallet not initialized');
+    if (!this.walletData.nsec || !this.walletData.ncryptsec) {
+      throw new Error('Wallet is not encrypted; use encrypt_wallet to encrypt it');
+    }
+
+    this.walletData.ncryptsec = encryptNsec(this.walletData.nsec, passphrase);
+    this.saveWallet();
+  }
+
+  /**
+   * Loads persisted deposit quotes and resumes polling the mints for
+   * any that were still pending when the process last exited.
+   */
+  private setupDeposits(): void {
+    if (!this.wallet || !this.walletData) throw new Error('Wallet not initialized');
+
+    this.walletData.deposits = this.walletData.deposits || {};
+    this.deposits = new DepositTracker(this.wallet, this.walletData.deposits, (record) => {
+      if (record.status !== 'pending') {
+        this.ledger.update(record.depositId, { status: record.status === 'paid' ? 'completed' : 'failed' });
+      }
+      this.saveWallet();
+    });
+    this.deposits.resume();
+  }
+
+  /**
+   * Subscribes to nutzaps addressed to us and redeems the ones locked to
+   * our P2PK and issued by a mint on our list. Meant for long-running
+   * (MCP server) mode.
+   */
+  async startNutzapMonitor(): Promise<void> {
+    if (!this.ndk || !this.wallet || !this.walletData) throw new Error('Wallet not initialized');
+    
+    const activeUser = this.ndk.activeUser;
+    if (!activeUser) return;
+    
+    this.walletData.nutzaps = this.walletData.nutzaps || {};
+    this.nutzapStore = new NutzapStore(this.ndk, this.walletData.nutzaps, (record, previousStatus) => {
+      if (record.status === NdkNutzapStatus.REDEEMED && previousStatus !== NdkNutzapStatus.REDEEMED) {
+        this.ledger.record({
+          type: 'receive',
+          status: 'completed',
+          amount: record.redeemedAmount ?? record.amount,
+          mint: record.mint,
+          counterparty: nip19.npubEncode(record.sender),
+          description: record.comment || 'Nutzap',
+          reference: record.id
+        });
+      }
+      this.saveWallet();
+    });
+    
+    const mintList = new NDKCashuMintList(this.ndk);
+    mintList.mints = this.wallet.mints || [];
+    mintList.p2pk = this.wallet.p2pk;
+    
+    this.nutzapMonitor = new WalletNutzapMonitor(
+      this.ndk,
+      activeUser,
+      { mintList, store: this.nutzapStore },
+      (nutzap) => this.validateNutzap(nutzap)
+    );
+    this.nutzapMonitor.wallet = this.wallet;
+    
+    try {
+      await this.nutzapMonitor.start({});
+    } catch (error) {
+      console.error('Error starting nutzap monitor:', error);
+    }
+  }
+
+  private validateNutzap(nutzap: NDKNutzap): string | undefined {
+    if (!this.wallet) return 'Wallet not initialized';
+    
+    const p2pk = nutzap.p2pk;
+    if (!p2pk || !this.wallet.p2pks.includes(p2pk)) {
+      return 'Not locked to this wallet\'s P2PK';
+    }
+    
+    const mints = (this.wallet.mints || []).map((mint) => normalizeUrl(mint));
+    if (!nutzap.mint || !mints.includes(normalizeUrl(nutzap.mint))) {
+      return `Issued by ${nutzap.mint || 'an unknown mint'}, which is not on the wallet's mint list`;
+    }
+    
+    return undefined;
+  }
+
+  listIncomingZaps(status?: NdkNutzapStatus): IncomingZapRecord[] {
+    if (this.nutzapStore) return this.nutzapStore.list(status);
+    
+    return Object.values(this.walletData?.nutzaps || {})
+      .filter((record) => !status || record.status === status)
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  async checkDeposit(depositId: string): Promise<DepositRecord | undefined> {
+    if (!this.deposits) throw new Error('Wallet not initialized');
+    return this.deposits.refresh(depositId);
+  }
+
+  getDeposit(depositId: string): DepositRecord | undefined {
+    if (!this.deposits) throw new Error('Wallet not initialized');
+    return this.deposits.get(depositId);
+  }
+
+  listDeposits(status?: DepositStatus): DepositRecord[] {
+    if (!this.deposits) throw new Error('Wallet not initialized');
+    return this.deposits.list(status);
+  }
+
+  private setupPolicy(): void {
+    if (!this.walletData) throw new Error('Wallet data not loaded');
+
+    this.walletData.spendHistory = this.walletData.spendHistory || [];
+    this.walletData.knownRecipients = this.walletData.knownRecipients || [];
+    this.policy = new SpendingPolicyEngine(
+      this.walletData.policy || {},
+      this.walletData.spendHistory,
+      this.walletData.knownRecipients
+    );
+  }
+
+  /**
+   * Registers the callback used to ask a human to confirm payments that
+   * the spending policy flags for approval. Without a handler (CLI mode)
+   * payments go ahead, since the user is the one running the command.
+   */
+  setApprovalHandler(handler: ApprovalHandler | null): void {
+    this.approvalHandler = handler;
+  }
+
+  /**
+   * Registers a callback told when the balance, the mint list, the
+   * ledger or a mint's info changes, so MCP resource subscribers can be
+   * notified. Returns a function that removes it.
+   */
+  addChangeListener(listener: (change: WalletChange) => void): () => void {
+    this.changeListeners.add(listener);
+    return () => this.changeListeners.delete(listener);
+  }
+
+  private notifyChange(change: WalletChange): void {
+    this.changeListeners.forEach((listener) => listener(change));
+  }
+
+  private async requestApproval(request: PaymentApprovalRequest, execute: () => Promise<any>, unattended = false): Promise<void> {
+    if (unattended) throw new PaymentDeclinedError(request);
+    if (!this.approvalHandler) return;
+
+    const decision = await this.approvalHandler(request);
+    if (decision === 'declined') {
+      throw new PaymentDeclinedError(request);
+    }
+    if (decision === 'pending') {
+      throw new ApprovalPendingError(this.approvals.add(request, execute));
+    }
+  }
+
+  private async estimateMeltFee(bolt11: string, amount: number): Promise<number | undefined> {
+    return (await this.quoteMelt(bolt11, amount))?.feeReserve;
+  }
+
+  /**
+   * Gets a melt quote from the first mint that can cover the invoice
+   * and its fee reserve, trying mints in the order lnPay does. Falls back
+   * to the first quote if no mint can cover the fee reserve.
+   */
+  private async quoteMelt(
+    bolt11: string,
+    amount: number
+  ): Promise<{ mint: string; feeReserve: number; mintBalance: number } | undefined> {
+    if (!this.wallet) return undefined;
+
+    const balances = this.wallet.mintBalances;
+    let fallback: { mint: string; feeReserve: number; mintBalance: number } | undefined;
+    for (const mint of this.wallet.getMintsWithBalance(amount)) {
+      try {
+        const cashuWallet = await this.wallet.getCashuWallet(mint);
+        const quote = await cashuWallet.createMeltQuote(bolt11);
+        const candidate = { mint, feeReserve: quote.fee_reserve, mintBalance: balances[mint] || 0 };
+        if (candidate.mintBalance >= amount + candidate.feeReserve) return candidate;
+        fallback = fallback || candidate;
+      } catch (error) {
+        console.error(`Failed to get melt quote from ${mint}:`, error);
+      }
+    }
+    return fallback;
+  }
+
+  /**
+   * Shows what paying an invoice would involve without paying it: the
+   * invoice details, the mint that would be used, its fee reserve and
+   * whether the balance covers it.
+   */
+  async quotePayment(bolt11: string): Promise<PaymentQuote> {
+    if (!this.wallet) throw new Error('Wallet not initialized');
+
+    const invoice = decodeInvoice(bolt11);
+    if (!invoice.amountSats) {
+      throw new WalletError('INVALID_ARGUMENT', 'Invoices without an amount are not supported');
+    }
+
+    const amount = invoice.amountSats;
+    const quote: PaymentQuote = {
+      amount,
+      paymentHash: invoice.paymentHash,
+      description: invoice.description,
+      payee: invoice.payee,
+      expiresAt: invoice.expiresAt,
+      expired: isInvoiceExpired(invoice),
+      balance: this.wallet.balance?.amount || 0,
+      sufficient: false
+    };
+
+    if (quote.expired) {
+      quote.reason = 'Invoice has expired';
+      return quote;
+    }
+    if (quote.balance < amount) {
+      quote.reason = `Balance of ${quote.balance} sats is less than ${amount} sats`;
+      return quote;
+    }
+
+    const singleMint = this.wallet.getMintsWithBalance(amount).length > 0;
+    const melt = singleMint ? await this.quoteMelt(bolt11, amount) : undefined;
+    if (singleMint && !melt) {
+      quote.reason = 'No mint with enough balance returned a melt quote';
+      return quote;
+    }
+    if (melt && melt.mintBalance >= amount + melt.feeReserve) {
+      quote.mint = melt.mint;
+      quote.mintBalance = melt.mintBalance;
+      quote.feeReserve = melt.feeReserve;
+      quote.totalRequired = amount + melt.feeReserve;
+      quote.sufficient = true;
+      return quote;
+    }
+
+    try {
+      const multiPath = await this.quoteMultiPath(invoice);
+      quote.parts = multiPath.parts.map(({ meltQuote, ...part }) => part);
+      quote.feeReserve = quote.parts.reduce((sum, part) => sum + part.feeReserve, 0);
+      quote.totalRequired = amount + quote.feeReserve;
+      quote.sufficient = true;
+    } catch (error) {
+      quote.reason = error instanceof Error ? error.message : String(error);
+    }
+    return quote;
+  }
+
+  /**
+   * Configured mints that can pay part of an invoice (NUT-15). Mints
+   * whose info cannot be fetched are left out.
+   */
+  private async multiPathMints(): Promise<string[]> {
+    const mints = this.wallet?.mints || [];
+    const supported = await Promise.all(mints.map(async (mint) => {
+      try {
+        return supportsMultiPath(await this.getMintInfo(mint));
+      } catch {
+        return false;
+      }
+    }));
+    return mints.filter((_, index) => supported[index]);
+  }
+
+  /**
+   * Quotes an invoice split across the NUT-15 mints, or explains how the
+   * balance is spread when that is not possible.
+   */
+  private async quoteMultiPath(invoice: DecodedInvoice): Promise<MultiPathQuote> {
+    if (!this.wallet) throw new Error('Wallet not initialized');
+
+    const amount = invoice.amountSats!;
+    const balances = this.wallet.mintBalances;
+    const total = Object.values(balances).reduce((sum, balance) => sum + balance, 0);
+    if (total < amount) {
+      throw new WalletError('INSUFFICIENT_FUNDS', `Balance of ${total} sats is less than ${amount} sats`);
+    }
+
+    const mints = await this.multiPathMints();
+    try {
+      return await quoteMultiPath(this.wallet, invoice.bolt11, invoice.amountMsat!, mints);
+    } catch (error) {
+      throw new WalletError(errorCode(error), `${errorMessage(error)}. ${describeBalanceSplit(amount, balances, mints)}`);
+    }
+  }
+
+  /**
+   * Pays an invoice no single mint can cover by splitting it across the
+   * NUT-15 mints. Each mint's share gets its own ledger entries.
+   */
+  private async payMultiPath(invoice: DecodedInvoice, recipient: string, reservation: SpendReservation): Promise<PaymentResult> {
+    if (!this.wallet || !this.policy) throw new Error('Wallet not initialized');
+
+    const amount = invoice.amountSats!;
+    const quote = await this.quoteMultiPath(invoice);
+    const { preimage, parts } = await payMultiPath(this.wallet, quote);
+    const ledgerDetails = {
+      counterparty: recipient || undefined,
+      description: invoice.description,
+      reference: invoice.paymentHash
+    };
+
+    // A mint only reports a part as paid once the whole payment settled
+    const success = parts.some((part) => part.paid);
+    const pending = parts.filter((part) => part.pending);
+    if (success || pending.length > 0) {
+      // A pending part may still be paid, so it counts against the budget
+      this.policy.settle(reservation, recipient);
+    }
+    for (const part of parts.filter((p) => p.paid)) {
+      this.ledger.record({ ...ledgerDetails, type: 'melt', status: 'completed', amount: part.amount, mint: part.mint });
+      if (part.fee > 0) {
+        this.ledger.record({ ...ledgerDetails, type: 'fee', status: 'completed', amount: part.fee, mint: part.mint });
+      }
+    }
+    for (const part of pending) {
+      this.ledger.record({ ...ledgerDetails, type: 'melt', status: 'pending', amount: part.amount, mint: part.mint });
+    }
+    if (!success && pending.length === 0) {
+      this.ledger.record({ ...ledgerDetails, type: 'melt', status: 'failed', amount });
+    }
+    this.saveWallet();
+
+    const paid = parts.filter((part) => part.paid);
+    const fee = paid.reduce((sum, part) => sum + part.fee, 0);
+    const feeReserve = paid.reduce((sum, part) => sum + part.feeReserve, 0);
+    return {
+      success,
+      pending: pending.length > 0 || undefined,
+      amount,
+      fee,
+      feeReserve: success ? feeReserve : undefined,
+      change: success ? Math.max(0, feeReserve - fee) : undefined,
+      preimage,
+      paymentHash: invoice.paymentHash,
+      parts
+    };
+  }
+
+  listPendingPayments(): PendingPayment[] {
+    return this.approvals.list();
+  }
+
+  async approvePayment(paymentId: string): Promise<any> {
+    return this.approvals.release(paymentId);
+  }
+
+  rejectPayment(paymentId: string): boolean {
+    return this.approvals.discard(paymentId);
   }
 
   private async setupNDK(): Promise<void> {
     if (!this.walletData) throw new Error('Wallet data not loaded');
     
+    if (this.walletData.bunker) {
+      await this.setupRemoteSigner(this.walletData.bunker);
+      return;
+    }
+    if (!this.walletData.nsec) throw new Error('Wallet has neither an nsec nor a bunker configured');
+
     const signer = new NDKPrivateKeySigner(this.walletData.nsec);
     
     this.ndk = new NDK({
-      explicitRelayUrls: this.walletData.relays,
+      // A copy, since NDK adds every relay it connects to to this list
+      explicitRelayUrls: [...this.walletData.relays],
       signer
     });
 
     await this.ndk.connect(2500);
   }
 
+  /**
+   * Signs and decrypts through a NIP-46 bunker, so the identity key
+   * never has to be stored on this machine.
+   */
+  private async setupRemoteSigner(bunker: string): Promise<void> {
+    if (!this.walletData) throw new Error('Wallet data not loaded');
+
+    this.ndk = new NDK({
+      explicitRelayUrls: [...this.walletData.relays]
+    });
+    await this.ndk.connect(2500);
+
+    const { signer, user } = await connectBunker(this.ndk, bunker, this.walletData.bunkerClientKey);
+    this.ndk.signer = signer;
+    this.ndk.activeUser = user;
+
+    // Keep the session key so the bunker does not ask for authorization on every start
+    this.walletData.bunkerClientKey = signer.localSigner.nsec;
+    this.walletData.npub = user.npub;
+    this.saveWallet();
+  }
+
   private async setupWallet(): Promise<void> {
     if (!this.ndk || !this.walletData) throw new Error('NDK or wallet data not initialized');
     
-    this.mintInfoCache = new Map(Object.entries(this.walletData.mintInfoCache || {}));
-    
+    // Pick up the user's own relays before looking for the wallet event
+    await this.discoverUserRelays();
+
     // First, try to find an existing wallet on Nostr
     this.wallet = (await this.findExistingWallet()) || null;
     
@@ -144,6 +864,7 @@ class MCPWallet {
       
       // Create new wallet
       this.wallet = new NDKCashuWallet(this.ndk);
+      this.wallet.relaySet = this.writeRelaySet();
       
       // Configure with default mints
       this.wallet.mints = this.walletData.mints || [];
@@ -161,7 +882,20 @@ class MCPWallet {
         console.log('⚠️ Could not publish wallet info:', error);
       }
     } else {
+      this.wallet.relaySet = this.writeRelaySet();
     }
+
+    // Serve mint info from our cache instead of fetching it on every start
+    this.wallet.onMintInfoNeeded = async (mint) => {
+      try {
+        return await this.handleMintInfoNeeded(mint) as GetInfoResponse;
+      } catch {
+        return undefined;
+      }
+    };
+    this.wallet.onMintInfoLoaded = (mint, info) => this.cacheMintInfo(mint, info);
+    this.wallet.on('balance_updated', () => this.notifyChange({ resource: 'balance' }));
+    useDeterministicSecrets(this.wallet, seedFromMnemonic(this.mnemonic!), this.walletData.seed!.counters, () => this.saveWallet());
     
     // Start wallet monitoring to initialize balance tracking
     await this.wallet.start();
@@ -170,6 +904,37 @@ class MCPWallet {
     this.ndk.wallet = this.wallet;
   }
 
+  /**
+   * Unlocks the NUT-13 mnemonic, generating one for wallets that do not
+   * have it yet. It is stored NIP-44 encrypted to our own key, so the
+   * nsec (or bunker) is all it takes to read it.
+   */
+  private async setupSeed(): Promise<void> {
+    if (!this.ndk?.signer || !this.walletData) throw new Error('NDK or wallet data not initialized');
+
+    const signer = this.ndk.signer;
+    const user = await signer.user();
+    const seed = this.walletData.seed = this.walletData.seed || { counters: {} };
+
+    if (!this.mnemonic) {
+      if (seed.encryptedMnemonic) {
+        try {
+          this.mnemonic = await signer.decrypt(user, seed.encryptedMnemonic, 'nip44');
+        } catch (error) {
+          // Never generate a new seed over one we could not read: its proofs would become unrestorable
+          throw new Error(`Could not decrypt the wallet seed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      } else {
+        this.mnemonic = generateSeedMnemonic();
+      }
+    }
+
+    if (!seed.encryptedMnemonic) {
+      seed.encryptedMnemonic = await signer.encrypt(user, this.mnemonic, 'nip44');
+      this.saveWallet();
+    }
+  }
+
   private async findExistingWallet(): Promise<NDKCashuWallet | undefined> {
     if (!this.ndk) throw new Error('NDK not initialized');
     
@@ -185,6 +950,7 @@ class MCPWallet {
       });
       
       if (event) {
+        this.addDiscoveredRelays(await walletEventRelays(event), 'the wallet event');
         return await NDKCashuWallet.from(event);
       }
     } catch (error) {
@@ -202,12 +968,104 @@ class MCPWallet {
       mintList.mints = this.wallet.mints || [];
       mintList.p2pk = this.wallet.p2pk;
       
-      await mintList.publish();
+      await mintList.publish(this.wallet.relaySet);
     } catch (error) {
       console.log('⚠️ Could not publish mint list:', error);
     }
   }
 
+  /**
+   * Merges the user's NIP-65 relay list into the configured relays, so
+   * the wallet reads and publishes where other clients look.
+   */
+  private async discoverUserRelays(): Promise<void> {
+    if (!this.ndk) throw new Error('NDK not initialized');
+
+    const activeUser = this.ndk.activeUser;
+    if (!activeUser) return;
+
+    const discovered = await discoverRelays(this.ndk, activeUser.pubkey);
+    this.readOnlyRelays = discovered.readOnly;
+    this.addDiscoveredRelays(discovered.relays, 'the NIP-65 relay list');
+  }
+
+  private addDiscoveredRelays(relays: string[], source: string): void {
+    if (!this.ndk || !this.walletData) return;
+
+    const added = mergeRelays([relays], [...this.walletData.relays, ...(this.walletData.removedRelays || [])]);
+    if (added.length === 0) return;
+
+    for (const url of added) {
+      this.connectRelay(url);
+    }
+    this.walletData.relays.push(...added);
+    this.saveWallet();
+    console.error(`Added ${added.length} relay(s) from ${source}: ${added.join(', ')}`);
+  }
+
+  private connectRelay(url: string): NDKRelay {
+    return this.ndk!.pool.relays.get(normalizeRelay(url)) || this.ndk!.addExplicitRelay(url, undefined, true);
+  }
+
+  /**
+   * The relays wallet, token and mint list events are published to:
+   * every configured relay except those the user marked read-only.
+   */
+  private writeRelaySet(): NDKRelaySet | undefined {
+    if (!this.ndk || !this.walletData) return undefined;
+
+    const relays = this.walletData.relays.filter((url) => !this.readOnlyRelays.some((relay) => sameRelay(relay, url)));
+    return relays.length > 0 ? NDKRelaySet.fromRelayUrls(relays, this.ndk) : undefined;
+  }
+
+  listRelays(): RelayStatus[] {
+    if (!this.ndk || !this.walletData) throw new Error('Wallet not initialized');
+
+    return this.walletData.relays.map((url) =>
+      relayStatus(this.ndk!, url, !this.readOnlyRelays.some((relay) => sameRelay(relay, url))));
+  }
+
+  async addRelay(url: string): Promise<RelayStatus> {
+    if (!this.ndk || !this.walletData) throw new Error('Wallet not initialized');
+
+    normalizeRelay(url);
+    if (this.walletData.relays.some((relay) => sameRelay(relay, url))) {
+      throw new WalletError('INVALID_ARGUMENT', `Relay ${url} is already configured`);
+    }
+
+    this.walletData.relays.push(url);
+    this.walletData.removedRelays = (this.walletData.removedRelays || []).filter((relay) => !sameRelay(relay, url));
+    this.readOnlyRelays = this.readOnlyRelays.filter((relay) => !sameRelay(relay, url));
+    this.saveWallet();
+
+    try {
+      await this.connectRelay(url).connect(2500);
+    } catch {
+      // Reported as disconnected below; NDK keeps retrying
+    }
+    if (this.wallet) this.wallet.relaySet = this.writeRelaySet();
+    return relayStatus(this.ndk, url, true);
+  }
+
+  removeRelay(url: string): void {
+    if (!this.ndk || !this.walletData) throw new Error('Wallet not initialized');
+
+    const configured = this.walletData.relays.find((relay) => sameRelay(relay, url));
+    if (!configured) {
+      throw new WalletError('NOT_FOUND', `Relay ${url} is not configured`);
+    }
+    if (this.walletData.relays.length === 1) {
+      throw new WalletError('INVALID_ARGUMENT', 'Cannot remove the last relay');
+    }
+
+    this.walletData.relays = this.walletData.relays.filter((relay) => relay !== configured);
+    this.walletData.removedRelays = [...(this.walletData.removedRelays || []), configured];
+    this.saveWallet();
+
+    this.ndk.pool.removeRelay(normalizeRelay(configured));
+    if (this.wallet) this.wallet.relaySet = this.writeRelaySet();
+  }
+
   private async handleMintInfoNeeded(mintUrl: string): Promise<MintInfo> {
     if (this.mintInfoCache.has(mintUrl)) {
       const cached = this.mintInfoCache.get(mintUrl)!;
@@ -220,16 +1078,8 @@ class MCPWallet {
     }
 
     try {
-      const response = await fetch(`${mintUrl}/v1/info`);
-      const mintInfo: MintInfo = await response.json();
-      
-      // Cache the mint info
-      this.mintInfoCache.set(mintUrl, {
-        info: mintInfo,
-        timestamp: Date.now()
-      });
-      
-      this.saveWallet();
+      const mintInfo = await fetchMintInfo(mintUrl);
+      this.cacheMintInfo(mintUrl, mintInfo);
       return mintInfo;
     } catch (error) {
       console.error(`Failed to fetch mint info for ${mintUrl}:`, error);
@@ -237,20 +1087,130 @@ class MCPWallet {
     }
   }
 
-  async getBalance(): Promise<number> {
-    if (!this.wallet) throw new Error('Wallet not initialized');
+  private cacheMintInfo(mintUrl: string, info: MintInfo): void {
+    this.mintInfoCache.set(mintUrl, {
+      info,
+      timestamp: Date.now()
+    });
+    this.saveWallet();
+    this.notifyChange({ resource: 'mint_info', mint: mintUrl });
+  }
 
-    try {
-      const balance = this.wallet.balance?.amount || 0;
-      return balance;
-    } catch (error) {
-      console.error('Error getting balance:', error);
-      return 0;
-    }
+  getCachedMintInfo(mintUrl: string): MintInfo | undefined {
+    return this.mintInfoCache.get(mintUrl)?.info;
   }
 
-  async getMintBalances(): Promise<Map<string, number>> {
-    if (!this.wallet) throw new Error('Wallet not initialized');
+  /**
+   * Bearer tokens for HTTP mode: those in the wallet file, plus one
+   * allowed every agent tool when MCP_HTTP_TOKEN is set.
+   */
+  getHttpTokens(): HttpToken[] {
+    const tokens = [...(this.walletData?.http?.tokens || [])];
+    const envToken = process.env[HTTP_TOKEN_ENV];
+    if (envToken) tokens.push({ token: envToken, name: HTTP_TOKEN_ENV });
+    return tokens;
+  }
+
+  listMints(): string[] {
+    return this.wallet?.mints || this.walletData?.mints || [];
+  }
+
+  async getMintInfo(mintUrl: string, refresh = false): Promise<MintInfo> {
+    if (refresh) {
+      this.mintInfoCache.delete(mintUrl);
+    }
+    return this.handleMintInfoNeeded(mintUrl);
+  }
+
+  /**
+   * Probes every configured mint for reachability, latency, active
+   * keysets and the NUTs the wallet needs.
+   */
+  async checkMints(): Promise<MintHealth[]> {
+    if (!this.walletData) throw new Error('Wallet not initialized');
+
+    const mints = this.wallet?.mints || this.walletData.mints || [];
+    const results = await Promise.all(mints.map((mint) => probeMint(mint)));
+    for (const result of results) {
+      if (result.info) this.cacheMintInfo(result.mint, result.info);
+    }
+    return results;
+  }
+
+  async getBalance(): Promise<number> {
+    if (!this.wallet) throw new Error('Wallet not initialized');
+
+    try {
+      const balance = this.wallet.balance?.amount || 0;
+      return balance;
+    } catch (error) {
+      console.error('Error getting balance:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Balance per mint and keyset unit. ndk-wallet counts every proof as
+   * sats, so proofs from usd or eur keysets are split out here.
+   */
+  async getUnitBalances(): Promise<Record<string, Record<string, number>>> {
+    if (!this.wallet) throw new Error('Wallet not initialized');
+
+    const balances: Record<string, Record<string, number>> = {};
+    for (const mint of Object.keys(this.wallet.mintBalances)) {
+      const proofs = this.wallet.state.getProofs({ mint, onlyAvailable: true });
+      if (proofs.some((proof) => !this.keysetUnits.has(proof.id))) {
+        try {
+          for (const keyset of await fetchKeysets(mint)) {
+            this.keysetUnits.set(keyset.id, keyset.unit);
+          }
+        } catch (error) {
+          console.error(`Failed to fetch keysets from ${mint}:`, error);
+        }
+      }
+
+      const units: Record<string, number> = {};
+      for (const proof of proofs) {
+        const unit = this.keysetUnits.get(proof.id) || 'sat';
+        units[unit] = (units[unit] || 0) + proof.amount;
+      }
+      balances[mint] = units;
+    }
+    return balances;
+  }
+
+  setRateProvider(provider: RateProvider): void {
+    this.rates = provider;
+  }
+
+  /**
+   * Converts an amount given in sat, msat, btc or a fiat currency to
+   * sats, the unit the wallet spends in.
+   */
+  async convertAmount(amount: number, unit = 'sat'): Promise<Conversion> {
+    return convertToSats(amount, unit, this.rates);
+  }
+
+  /**
+   * Values sats in `currency`, or in the configured display currency.
+   * A configured currency whose rate cannot be fetched is left out, so
+   * balances still show offline.
+   */
+  async fiatValue(sats: number, currency?: string): Promise<FiatValue | undefined> {
+    const target = currency || this.walletData?.fiat?.currency;
+    if (!target) return undefined;
+
+    try {
+      return await satsToFiat(sats, target, this.rates);
+    } catch (error) {
+      if (currency) throw error;
+      console.error(`Failed to get the BTC price in ${target}:`, error);
+      return undefined;
+    }
+  }
+
+  async getMintBalances(): Promise<Map<string, number>> {
+    if (!this.wallet) throw new Error('Wallet not initialized');
     
     try {
       const balances = this.wallet.mintBalances;
@@ -268,6 +1228,61 @@ class MCPWallet {
     }
   }
 
+  /**
+   * Records a deposit as pending in the ledger and persists its quote
+   * so it can be looked up and claimed after a restart.
+   */
+  private recordDeposit(
+    deposit: NDKCashuDeposit,
+    invoice: string,
+    depositId = `deposit_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+  ): string {
+    this.ledger.record({
+      id: depositId,
+      type: 'deposit',
+      status: 'pending',
+      amount: deposit.amount,
+      mint: deposit.mint,
+      reference: invoice
+    });
+
+    this.deposits?.track(deposit, depositId, invoice);
+    return depositId;
+  }
+
+  /**
+   * Records an outgoing payment, working out which mint paid it and the
+   * fee from how much the mint balances dropped.
+   */
+  private recordSpend(
+    type: 'melt' | 'zap' | 'send',
+    amount: number,
+    balancesBefore: Record<string, number>,
+    details: Partial<LedgerEntryInput> = {}
+  ): { mint?: string; fee: number } {
+    const balancesAfter = this.wallet?.mintBalances || {};
+    let spent = 0;
+    let mint: string | undefined;
+    for (const [url, before] of Object.entries(balancesBefore)) {
+      const diff = before - (balancesAfter[url] || 0);
+      if (diff > 0) {
+        spent += diff;
+        mint = mint || url;
+      }
+    }
+
+    const fee = Math.max(0, spent - amount);
+    this.ledger.record({ ...details, type, status: 'completed', amount, mint });
+    if (fee > 0) {
+      this.ledger.record({ ...details, type: 'fee', status: 'completed', amount: fee, mint });
+    }
+    return { mint, fee };
+  }
+
+  listTransactions(filter: LedgerFilter = {}): LedgerEntry[] {
+    return this.ledger.list(filter);
+  }
+
   async createDepositInvoice(amount: number, mintUrl?: string): Promise<{ bolt11: string; amount: number; mintUrl: string; depositId: string }> {
     if (!this.wallet || !this.walletData) throw new Error('Wallet not initialized');
     
@@ -275,7 +1290,7 @@ class MCPWallet {
       // If no mint URL provided, use first available mint
       if (!mintUrl) {
         if (!this.walletData.mints || this.walletData.mints.length === 0) {
-          throw new Error('No mints configured. Please add a mint first.');
+          throw new WalletError('NOT_FOUND', 'No mints configured. Please add a mint first.');
         }
         mintUrl = this.walletData.mints[0];
       }
@@ -285,13 +1300,14 @@ class MCPWallet {
         this.walletData.mints.push(mintUrl);
         this.wallet.mints = this.walletData.mints;
         this.saveWallet();
+        this.notifyChange({ resource: 'mints' });
       }
       
       const deposit: NDKCashuDeposit = this.wallet.deposit(amount, mintUrl);
       const invoice = await deposit.start();
       
-      // Generate unique ID for tracking this deposit
-      const depositId = `deposit_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+      // Track this deposit so it can be looked up and resumed after a restart
+      const depositId = this.recordDeposit(deposit, invoice);
       
       // Set up background monitoring for this deposit
       deposit.on("success", () => {
@@ -311,14 +1327,14 @@ class MCPWallet {
     }
   }
 
-  async deposit(amount: number, mintUrl?: string): Promise<{ success?: boolean; timeout?: boolean; amount: number; mintUrl: string; invoice?: string }> {
+  async deposit(amount: number, mintUrl?: string): Promise<{ success?: boolean; timeout?: boolean; amount: number; mintUrl: string; depositId: string; invoice?: string }> {
     if (!this.wallet || !this.walletData) throw new Error('Wallet not initialized');
     
     try {
       // If no mint URL provided, try all mints concurrently and return first response
       if (!mintUrl) {
         if (!this.walletData.mints || this.walletData.mints.length === 0) {
-          throw new Error('No mints configured. Please add a mint first.');
+          throw new WalletError('NOT_FOUND', 'No mints configured. Please add a mint first.');
         }
         
         // Create a promise that resolves on first successful mint response
@@ -355,6 +1371,7 @@ class MCPWallet {
         
         const { mint, deposit, invoice } = firstSuccessfulMint;
         mintUrl = mint;
+        const depositId = this.recordDeposit(deposit, invoice);
         
         console.log(invoice);
         
@@ -362,7 +1379,7 @@ class MCPWallet {
         return new Promise((resolve, reject) => {
           deposit.on("success", () => {
             this.saveWallet();
-            resolve({ success: true, amount, mintUrl: mintUrl! });
+            resolve({ success: true, amount, mintUrl: mintUrl!, depositId });
           });
           
           deposit.on("error", (error) => {
@@ -372,7 +1389,7 @@ class MCPWallet {
           
           // Optional: Add a timeout after 10 minutes
           setTimeout(() => {
-            resolve({ timeout: true, amount, mintUrl: mintUrl!, invoice });
+            resolve({ timeout: true, amount, mintUrl: mintUrl!, depositId, invoice });
           }, 10 * 60 * 1000);
         });
       }
@@ -388,6 +1405,7 @@ class MCPWallet {
         this.walletData.mints.push(mintUrl);
         this.wallet.mints = this.walletData.mints;
         this.saveWallet();
+        this.notifyChange({ resource: 'mints' });
       }
       
       // 1. Initiate the deposit process
@@ -395,6 +1413,7 @@ class MCPWallet {
       
       // 2. Start the deposit process and get the invoice
       const invoice = await deposit.start();
+      const depositId = this.recordDeposit(deposit, invoice);
       
       console.log(invoice);
       
@@ -403,7 +1422,7 @@ class MCPWallet {
         deposit.on("success", () => {
           this.saveWallet();
           // We've ensured mintUrl is defined by this point
-          resolve({ success: true, amount, mintUrl: mintUrl! });
+          resolve({ success: true, amount, mintUrl: mintUrl!, depositId });
         });
         
         deposit.on("error", (error) => {
@@ -413,7 +1432,7 @@ class MCPWallet {
         
         // Optional: Add a timeout after 10 minutes
         setTimeout(() => {
-          resolve({ timeout: true, amount, mintUrl: mintUrl!, invoice });
+          resolve({ timeout: true, amount, mintUrl: mintUrl!, depositId, invoice });
         }, 10 * 60 * 1000);
       });
       
@@ -423,54 +1442,271 @@ class MCPWallet {
     }
   }
 
-  async pay(bolt11: string): Promise<any> {
-    if (!this.wallet) throw new Error('Wallet not initialized');
+  async pay(bolt11: string, options: PaymentOptions = {}): Promise<PaymentResult> {
+    if (!this.wallet || !this.policy) throw new Error('Wallet not initialized');
     
+    let reservation: SpendReservation | undefined;
     try {
+      const invoice = decodeInvoice(bolt11);
+      if (!invoice.amountSats) {
+        throw new WalletError('INVALID_ARGUMENT', 'Invoices without an amount are not supported');
+      }
+      if (isInvoiceExpired(invoice)) {
+        throw new WalletError('INVOICE_EXPIRED', `Invoice expired at ${new Date(invoice.expiresAt! * 1000).toISOString()}`);
+      }
+      const recipient = options.recipient || invoice.payee || '';
+      const recipients = [recipient, invoice.payee || ''];
+      reservation = this.policy.check(invoice.amountSats, recipients, options.reservation);
+
+      const reason = this.policy.approvalReason(invoice.amountSats, recipients);
+      if (reason && !options.approved) {
+        await this.requestApproval({
+          kind: 'pay',
+          amount: invoice.amountSats,
+          destination: recipient || 'unknown Lightning node',
+          feeEstimate: await this.estimateMeltFee(bolt11, invoice.amountSats),
+          description: invoice.description,
+          reason
+        }, () => this.pay(bolt11, { ...options, approved: true }), options.unattended);
+      }
+
+      // Quoted up front so the unused part of the fee reserve can be reported
+      const melt = await this.quoteMelt(bolt11, invoice.amountSats);
+      const singleMint = this.wallet.getMintsWithBalance(invoice.amountSats).length > 0;
+      if (!singleMint || (melt && melt.mintBalance < invoice.amountSats + melt.feeReserve)) {
+        return await this.payMultiPath(invoice, recipient, reservation);
+      }
+
+      const balancesBefore = this.wallet.mintBalances;
       const result = await this.wallet.lnPay({ pr: bolt11 });
+      const ledgerDetails = {
+        counterparty: recipient || undefined,
+        description: invoice.description,
+        reference: invoice.paymentHash
+      };
+      const payment: PaymentResult = {
+        success: !!result,
+        amount: invoice.amountSats,
+        fee: 0,
+        paymentHash: invoice.paymentHash
+      };
+      if (result) {
+        this.policy.settle(reservation, recipient);
+        const { mint, fee } = this.recordSpend('melt', invoice.amountSats, balancesBefore, ledgerDetails);
+        payment.fee = fee;
+        payment.mint = mint;
+        payment.preimage = result.preimage;
+        if (melt && melt.mint === mint) {
+          payment.feeReserve = melt.feeReserve;
+          payment.change = Math.max(0, melt.feeReserve - fee);
+        }
+      } else {
+        this.ledger.record({ ...ledgerDetails, type: 'melt', status: 'failed', amount: invoice.amountSats });
+      }
       
       this.saveWallet();
-      return result;
+      return payment;
     } catch (error) {
       console.error('Error making payment:', error);
       throw error;
+    } finally {
+      if (reservation && !options.reservation) this.policy.release(reservation);
     }
   }
 
-  async zap(recipient: string, amount: number, comment: string = ''): Promise<any> {
-    if (!this.ndk || !this.wallet) throw new Error('NDK or wallet not initialized');
+  /**
+   * Pays a Lightning address (LUD-16) or LNURL-pay string (LUD-06). The
+   * policy and approval run before the invoice is fetched, so an
+   * approved payment gets a fresh invoice.
+   */
+  async payLightningAddress(target: string, amount: number, comment = '', options: PaymentOptions = {}): Promise<any> {
+    if (!this.wallet || !this.policy) throw new Error('Wallet not initialized');
+
+    const reservation = this.policy.check(amount, [target]);
+    try {
+      const reason = this.policy.approvalReason(amount, [target]);
+      if (reason && !options.approved) {
+        await this.requestApproval({
+          kind: 'pay',
+          amount,
+          destination: target,
+          description: comment || undefined,
+          reason
+        }, () => this.payLightningAddress(target, amount, comment, { ...options, approved: true }), options.unattended);
+      }
+
+      const { bolt11 } = await fetchLnurlInvoice(target, amount, comment);
+      return { ...await this.pay(bolt11, { ...options, approved: true, recipient: target, reservation }), bolt11 };
+    } finally {
+      this.policy.release(reservation);
+    }
+  }
+
+  /**
+   * Zaps a profile or an event. Events with `zap` split tags are paid
+   * in one leg per recipient, one after another, and each leg reports
+   * its own outcome and receipt.
+   */
+  async zap(recipient: string, amount: number, comment: string = '', options: PaymentOptions = {}): Promise<ZapResult> {
+    if (!this.ndk || !this.wallet || !this.policy) throw new Error('NDK or wallet not initialized');
     
+    let reservation: SpendReservation | undefined;
     try {
-      let user;
-      
-      // Check if recipient looks like a pubkey (npub or hex)
-      if (recipient.startsWith('npub') || (recipient.length === 64 && /^[0-9a-f]+$/i.test(recipient))) {
-        // Direct pubkey - use as is
-        user = this.ndk.getUser({ npub: recipient.startsWith('npub') ? recipient : nip19.npubEncode(recipient) });
-      } else {
-        // Assume it's a NIP-05 identifier and try to resolve it
+      const target = await resolveZapTarget(this.ndk, recipient);
+      const legs = planZapSplits(target, amount);
+
+      // Budgets apply to the whole zap, recipient rules to every leg
+      reservation = this.policy.check(amount, [target.user.pubkey, recipient]);
+      for (const leg of legs) {
+        this.policy.check(leg.amount, [leg.pubkey], reservation);
+      }
+
+      const reason = this.policy.approvalReason(amount, [target.user.pubkey, recipient])
+        || legs.map((leg) => this.policy!.approvalReason(leg.amount, [leg.pubkey])).find(Boolean);
+      if (reason && !options.approved) {
+        const splitNote = legs.length > 1 ? `, split between ${legs.length} recipients` : '';
+        await this.requestApproval({
+          kind: 'zap',
+          amount,
+          destination: recipient === target.user.npub ? recipient : `${recipient} (${target.user.npub}${splitNote})`,
+          description: comment || undefined,
+          reason
+        }, () => this.zap(recipient, amount, comment, { ...options, approved: true }), options.unattended);
+      }
+
+      // Use NDK's built-in zapping with the configured wallet
+      const zapper = new NDKZapper(target.event || target.user, amount * 1000, "msat", {
+        ndk: this.ndk,
+        comment: comment
+      });
+      const invoices = new Map<string, string>();
+      zapper.on('ln_invoice', ({ recipientPubkey, pr }) => invoices.set(recipientPubkey, pr));
+
+      const results: ZapLegResult[] = [];
+      for (const leg of legs) {
+        const npub = nip19.npubEncode(leg.pubkey);
+        const ledgerDetails = {
+          counterparty: npub,
+          description: comment || undefined,
+          reference: target.event?.id
+        };
+        const since = Math.floor(Date.now() / 1000) - 5;
+        const balancesBefore = this.wallet.mintBalances;
         try {
-          user = await this.ndk.getUserFromNip05(recipient);
-          if (!user) {
-            throw new Error(`Could not resolve NIP-05 identifier: ${recipient}`);
+          const confirmation = await zapper.zapSplit({ pubkey: leg.pubkey, amount: leg.amount * 1000 });
+          if (!confirmation) throw new Error('No zap method succeeded');
+
+          this.policy.settle(reservation, leg.pubkey, leg.amount);
+          const { fee } = this.recordSpend('zap', leg.amount, balancesBefore, ledgerDetails);
+          if (confirmation instanceof NDKNutzap) {
+            results.push({ ...leg, npub, success: true, method: 'nip61', receiptId: confirmation.id, fee });
+          } else {
+            const bolt11 = invoices.get(leg.pubkey);
+            const receiptId = bolt11 ? await findZapReceipt(this.ndk, leg.pubkey, bolt11, since) : undefined;
+            results.push({ ...leg, npub, success: true, method: 'nip57', receiptId, preimage: confirmation.preimage, fee });
           }
-        } catch (nip05Error) {
-          throw new Error(`Failed to resolve NIP-05 identifier "${recipient}": ${nip05Error instanceof Error ? nip05Error.message : 'Unknown error'}`);
+        } catch (error) {
+          this.ledger.record({ ...ledgerDetails, type: 'zap', status: 'failed', amount: leg.amount });
+          results.push({ ...leg, npub, success: false, error: error instanceof Error ? error.message : String(error) });
         }
       }
       
-      // Use NDK's built-in zapping with the configured wallet
-      const zapper = new NDKZapper(user, amount * 1000, "msat", {
-        ndk: this.ndk,
-        comment: comment
+      this.saveWallet();
+      return {
+        success: results.some((leg) => leg.success),
+        amount,
+        target: target.label,
+        eventId: target.event?.id,
+        legs: results
+      };
+    } catch (error) {
+      console.error('Error sending zap:', error);
+      throw error;
+    } finally {
+      if (reservation) this.policy.release(reservation);
+    }
+  }
+
+  /**
+   * Creates a serialized Cashu token worth `amount` sats that can be
+   * handed to anyone. When a mint is given the token is issued by that
+   * mint, moving funds there over Lightning if needed.
+   */
+  async sendToken(amount: number, mintUrl?: string, memo?: string, options: PaymentOptions = {}): Promise<{ token: string; amount: number; mint: string }> {
+    if (!this.ndk || !this.wallet || !this.policy) throw new Error('NDK or wallet not initialized');
+    
+    let reservation: SpendReservation | undefined;
+    try {
+      reservation = this.policy.check(amount, null);
+
+      const reason = this.policy.approvalReason(amount, null);
+      if (reason && !options.approved) {
+        await this.requestApproval({
+          kind: 'send_token',
+          amount,
+          destination: 'bearer Cashu token',
+          description: memo,
+          reason
+        }, () => this.sendToken(amount, mintUrl, memo, { ...options, approved: true }), options.unattended);
+      }
+
+      const activeUser = this.ndk.activeUser;
+      if (!activeUser) throw new Error('No active user');
+
+      const balancesBefore = this.wallet.mintBalances;
+      const result = await this.wallet.cashuPay({
+        target: activeUser,
+        recipientPubkey: activeUser.pubkey,
+        amount,
+        unit: 'sat',
+        mints: mintUrl ? [mintUrl] : undefined,
+        paymentDescription: memo || 'Cashu token'
       });
+      if (!result) {
+        throw new WalletError('INSUFFICIENT_FUNDS', `Could not create a token for ${amount} sats${mintUrl ? ` at ${mintUrl}` : ''}. Check the balance with get_mint_balances.`);
+      }
+
+      const token = getEncodedToken({ mint: result.mint, proofs: result.proofs, unit: 'sat', memo });
+
+      this.policy.settle(reservation, '');
+      this.recordSpend('send', amount, balancesBefore, { description: memo, mint: result.mint });
+      
+      this.saveWallet();
+      return { token, amount, mint: result.mint };
+    } catch (error) {
+      console.error('Error creating token:', error);
+      throw error;
+    } finally {
+      if (reservation) this.policy.release(reservation);
+    }
+  }
+
+  /**
+   * Redeems a cashuA/cashuB token into the wallet by swapping it at the
+   * mint that issued it.
+   */
+  async receiveToken(token: string, addMint = false): Promise<{ amount: number; mint: string; mintAdded: boolean; knownMint: boolean }> {
+    if (!this.wallet || !this.walletData) throw new Error('Wallet not initialized');
+    
+    try {
+      const { mint, memo } = getDecodedToken(token.trim());
+      const knownMint = (this.wallet.mints || []).includes(mint);
       
-      const zapResult = await zapper.zap();
+      const tokenEvent = await this.wallet.receiveToken(token.trim(), memo || 'Received token');
+      const amount = tokenEvent?.amount || 0;
+      
+      this.ledger.record({ type: 'receive', status: 'completed', amount, mint, description: memo });
+
+      let mintAdded = false;
+      if (!knownMint && addMint) {
+        await this.addMint(mint);
+        mintAdded = true;
+      }
       
       this.saveWallet();
-      return zapResult;
+      return { amount, mint, mintAdded, knownMint };
     } catch (error) {
-      console.error('Error sending zap:', error);
+      console.error('Error receiving token:', error);
       throw error;
     }
   }
@@ -482,6 +1718,16 @@ class MCPWallet {
       // Add mint to wallet if not already present
       const currentMints = this.wallet.mints || [];
       if (!currentMints.includes(mintUrl)) {
+        // Refuse mints we could not use before announcing them on Nostr
+        const health = await probeMint(mintUrl);
+        if (!health.reachable) {
+          throw new WalletError('MINT_UNREACHABLE', `Mint ${mintUrl} is unreachable: ${health.error}`);
+        }
+        if (!health.compatible) {
+          throw new WalletError('MINT_INCOMPATIBLE', `Mint ${mintUrl} is not compatible: ${health.error}`);
+        }
+        if (health.info) this.cacheMintInfo(mintUrl, health.info);
+
         this.wallet.mints = [...currentMints, mintUrl];
         this.walletData.mints = this.wallet.mints;
         
@@ -493,6 +1739,7 @@ class MCPWallet {
         await this.publishMintList();
         
         this.saveWallet();
+        this.notifyChange({ resource: 'mints' });
       } else {
       }
     } catch (error) {
@@ -500,325 +1747,1787 @@ class MCPWallet {
       throw error;
     }
   }
-}
 
-// MCP Server functionality using official TypeScript SDK
-class MCPServer {
-  private server: Server;
-  private wallet: MCPWallet;
+  /**
+   * Moves funds from one mint to another by melting them into a deposit
+   * invoice from the destination. Moves the whole balance if no amount is
+   * given, less whatever the Lightning fee reserve needs.
+   */
+  private async transferFunds(from: string, to: string, amount?: number): Promise<MintTransfer> {
+    if (!this.wallet) throw new Error('Wallet not initialized');
 
-  constructor(wallet: MCPWallet) {
-    this.wallet = wallet;
-    this.server = new Server(
-      {
-        name: "mcp-nostr-wallet",
-        version: "0.1.0",
-      },
-      {
-        capabilities: {
-          tools: {},
-        },
+    const balance = this.wallet.mintBalances[from] || 0;
+    const wanted = amount ?? balance;
+    if (wanted <= 0) {
+      throw new WalletError('INSUFFICIENT_FUNDS', `No funds on ${from} to move`);
+    }
+    if (wanted > balance) {
+      throw new WalletError('INSUFFICIENT_FUNDS', `Mint ${from} only holds ${balance} sats`);
+    }
+
+    const { deposit, bolt11, meltQuote } = await prepareTransfer(this.wallet, from, to, wanted, balance);
+    const depositId = this.recordDeposit(deposit, bolt11);
+    const details = { counterparty: to, description: `Transfer to ${to}`, reference: depositId };
+    let melt: MeltResult;
+    try {
+      melt = await meltFromMint(this.wallet, from, meltQuote);
+    } catch (error) {
+      if (errorCode(error) === 'PAYMENT_PENDING') {
+        this.ledger.record({ ...details, type: 'melt', status: 'pending', amount: meltQuote.amount, mint: from });
       }
-    );
+      throw error;
+    }
 
-    this.setupHandlers();
+    this.ledger.record({ ...details, type: 'melt', status: 'completed', amount: meltQuote.amount, mint: from });
+    if (melt.fee > 0) {
+      this.ledger.record({ ...details, type: 'fee', status: 'completed', amount: melt.fee, mint: from });
+    }
+
+    // Claim the ecash right away instead of waiting for the next poll
+    const record = await this.deposits?.refresh(depositId);
+    return { from, to, amount: meltQuote.amount, fee: melt.fee, depositId, claimed: record?.status === 'paid' };
   }
 
-  private setupHandlers(): void {
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
-      return {
-        tools: [
-          {
-            name: 'get_balance',
-            description: 'Get the total wallet balance',
-            inputSchema: {
-              type: 'object',
-              properties: {},
-              required: []
-            }
-          },
-          {
-            name: 'get_mint_balances', 
-            description: 'Get balance breakdown per mint',
-            inputSchema: {
-              type: 'object',
-              properties: {},
-              required: []
-            }
-          },
-          {
-            name: 'deposit',
-            description: 'Create a deposit invoice (bolt11) for the specified amount and mint. Returns the invoice immediately for payment. If no mint is specified, all mints will be tried concurrently and the first successful response will be used.',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                amount: { type: 'number', description: 'Amount in satoshis' },
-                mintUrl: { type: 'string', description: 'Mint URL to deposit to (optional - all mints tried concurrently if not provided)' }
-              },
-              required: ['amount']
-            }
-          },
-          {
-            name: 'pay',
-            description: 'Pay a Lightning invoice',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                bolt11: { type: 'string', description: 'Lightning invoice to pay' }
-              },
-              required: ['bolt11']
-            }
-          },
-          {
-            name: 'zap',
-            description: 'Send a zap to a user',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                recipient: { type: 'string', description: 'User npub or NIP-05 identifier to zap' },
-                amount: { type: 'number', description: 'Amount in satoshis' },
-                comment: { type: 'string', description: 'Optional comment' }
-              },
-              required: ['recipient', 'amount']
-            }
-          },
-          {
-            name: 'add_mint',
-            description: 'Add a mint to the wallet',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                mintUrl: { type: 'string', description: 'Mint URL to add' }
-              },
-              required: ['mintUrl']
-            }
-          }
-        ]
-      };
-    });
+  /**
+   * Picks the reachable, compatible mint holding the least, so migrated
+   * funds do not pile up on one mint.
+   */
+  private async pickTransferTarget(mints: string[]): Promise<string> {
+    if (!this.wallet) throw new Error('Wallet not initialized');
 
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const { name, arguments: args } = request.params;
-      return await this.callTool(name, args || {});
-    });
+    const health = await Promise.all(mints.map((mint) => probeMint(mint)));
+    const balances = this.wallet.mintBalances;
+    const usable = health
+      .filter((h) => h.compatible)
+      .sort((a, b) => (balances[a.mint] || 0) - (balances[b.mint] || 0));
+    if (usable.length === 0) {
+      throw new WalletError('MINT_UNREACHABLE', 'No other reachable and compatible mint to move funds to');
+    }
+    return usable[0].mint;
   }
 
-  private async callTool(name: string, args: any): Promise<any> {
-    switch (name) {
-      case 'get_balance':
-        const balance = await this.wallet.getBalance();
-        return { content: [{ type: 'text', text: `Total balance: ${balance} sats` }] };
+  /**
+   * Moves a mint's balance to another configured mint, then drops it
+   * from the wallet and republishes the wallet and mint list. Nothing is
+   * removed if the funds cannot be moved.
+   */
+  async removeMint(mintUrl: string, targetMint?: string): Promise<RemoveMintResult> {
+    if (!this.wallet || !this.walletData) throw new Error('Wallet not initialized');
 
-      case 'get_mint_balances':
-        const balances = await this.wallet.getMintBalances();
-        let balanceText = 'Balance per mint:\n';
-        let total = 0;
-        for (const [mintUrl, balance] of balances) {
-          balanceText += `  ${mintUrl}: ${balance} sats\n`;
-          total += balance;
-        }
-        balanceText += `Total: ${total} sats`;
-        return { content: [{ type: 'text', text: balanceText }] };
+    const currentMints = this.wallet.mints || [];
+    if (!currentMints.includes(mintUrl)) {
+      throw new WalletError('NOT_FOUND', `Mint ${mintUrl} is not configured`);
+    }
+    const others = currentMints.filter((mint) => mint !== mintUrl);
+    if (targetMint && !others.includes(targetMint)) {
+      throw new WalletError('NOT_FOUND', `Target mint ${targetMint} is not configured`);
+    }
 
-      case 'deposit':
-        const { amount, mintUrl } = args;
-        if (!amount) {
-          throw new Error('Amount is required');
-        }
-        const invoice = await this.wallet.createDepositInvoice(amount, mintUrl);
-        return { 
-          content: [{ 
-            type: 'text', 
-            text: `Deposit invoice created. Pay this invoice: ${invoice.bolt11}`
-          }],
-          invoice: invoice.bolt11,
-          amount: invoice.amount,
-          mintUrl: invoice.mintUrl,
-          depositId: invoice.depositId
-        };
+    let transfer: MintTransfer | undefined;
+    if ((this.wallet.mintBalances[mintUrl] || 0) > 0) {
+      if (others.length === 0) {
+        throw new WalletError('INVALID_ARGUMENT', 'Cannot remove the only mint while it holds funds; add another mint first');
+      }
+      transfer = await this.transferFunds(mintUrl, targetMint || await this.pickTransferTarget(others));
+    }
 
-      case 'pay':
-        const { bolt11 } = args;
-        if (!bolt11) {
-          throw new Error('bolt11 invoice is required');
-        }
-        const payResult = await this.wallet.pay(bolt11);
-        
-        if (payResult && payResult.success !== false) {
-          return { 
-            content: [{ type: 'text', text: 'Payment successful' }],
-            success: true,
-            bolt11,
-            payResult
-          };
-        } else {
-          return { 
-            content: [{ type: 'text', text: 'Payment failed' }],
-            success: false,
-            bolt11,
-            payResult
-          };
-        }
+    this.wallet.mints = others;
+    this.walletData.mints = others;
+    await this.wallet.publish();
+    await this.publishMintList();
+    this.saveWallet();
+    this.notifyChange({ resource: 'mints' });
 
-      case 'zap':
-        const { recipient, amount: zapAmount, comment = '' } = args;
-        if (!recipient || !zapAmount) {
-          throw new Error('recipient and amount are required');
-        }
-        const zapResult = await this.wallet.zap(recipient, zapAmount, comment);
-        
-        if (zapResult && zapResult.success !== false) {
-          return { 
-            content: [{ type: 'text', text: `Successfully zapped ${zapAmount} sats to ${recipient}` }],
-            success: true,
-            recipient,
-            amount: zapAmount,
-            comment,
-            zapResult
-          };
-        } else {
-          return { 
-            content: [{ type: 'text', text: `Failed to zap ${zapAmount} sats to ${recipient}` }],
-            success: false,
-            recipient,
-            amount: zapAmount,
-            comment,
-            zapResult
-          };
+    return { mint: mintUrl, transfer, remaining: this.wallet.mintBalances[mintUrl] || 0 };
+  }
+
+  /**
+   * Spreads funds across the configured mints to target percentages or
+   * caps. Transfers run one at a time; a failed one does not stop the rest.
+   */
+  async rebalance(options: RebalanceOptions, dryRun = false): Promise<RebalanceResult> {
+    if (!this.wallet) throw new Error('Wallet not initialized');
+
+    const balances = Object.fromEntries(await this.getMintBalances());
+    const plan = planRebalance(balances, this.wallet.mints || [], options);
+    const transfers: RebalanceResult['transfers'] = [];
+    if (dryRun) return { plan, transfers };
+
+    for (const move of plan.moves) {
+      try {
+        const transfer = await this.transferFunds(move.from, move.to, move.amount);
+        transfers.push({ ...move, transfer });
+      } catch (error) {
+        transfers.push({ ...move, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+    return { plan, transfers };
+  }
+
+  /**
+   * Checks every proof with its mint, removing spent ones, releasing
+   * ones stranded by an interrupted payment and, unless told not to,
+   * consolidating small proofs. Mints are checked one at a time; one
+   * that cannot be reached is reported and left as it was.
+   */
+  async verifyWallet(consolidate = true): Promise<WalletVerification> {
+    if (!this.wallet) throw new Error('Wallet not initialized');
+
+    const mints = Array.from(new Set([
+      ...(this.wallet.mints || []),
+      ...this.wallet.state.getMintsProofs({ validStates: new Set(['available', 'reserved']) }).keys()
+    ]));
+
+    const results: MintVerification[] = [];
+    for (const mint of mints) {
+      try {
+        const result = await verifyMintProofs(this.wallet, mint, consolidate);
+        if (result.fee > 0) {
+          this.ledger.record({ type: 'fee', status: 'completed', amount: result.fee, mint, description: 'Proof consolidation' });
+        }
+        if (result.proofsBefore > 0) results.push(result);
+      } catch (error) {
+        const balance = this.wallet.state.getBalance({ mint, onlyAvailable: false });
+        results.push({
+          mint,
+          before: balance,
+          after: balance,
+          proofsBefore: 0,
+          proofsAfter: 0,
+          spent: 0,
+          pending: 0,
+          recovered: 0,
+          consolidated: false,
+          fee: 0,
+          error: `Could not check proofs: ${error instanceof Error ? error.message : String(error)}`
+        });
+      }
+    }
+
+    this.wallet.emit('balance_updated');
+    this.saveWallet();
+    return {
+      before: results.reduce((total, result) => total + result.before, 0),
+      after: results.reduce((total, result) => total + result.after, 0),
+      mints: results
+    };
+  }
+
+  /**
+   * Rescans every configured mint for proofs derived from the wallet
+   * seed (NUT-13) and stores the unspent ones the wallet is missing.
+   * `extraProofs`, e.g. from a backup, are checked and stored the same way.
+   */
+  async restore(extraProofs: Record<string, Proof[]> = {}): Promise<WalletRestore> {
+    if (!this.wallet || !this.walletData?.seed || !this.mnemonic) throw new Error('Wallet not initialized');
+
+    const seed = seedFromMnemonic(this.mnemonic);
+    const mints = Array.from(new Set([...(this.wallet.mints || []), ...Object.keys(extraProofs)]));
+
+    const results: MintRestore[] = [];
+    for (const mint of mints) {
+      const result: MintRestore = { mint, keysets: 0, recovered: 0, proofs: 0 };
+      const candidates = [...(extraProofs[mint] || [])];
+      try {
+        const scan = await scanMintProofs(mint, seed, this.walletData.seed.counters);
+        result.keysets = scan.keysets;
+        candidates.push(...scan.proofs);
+      } catch (error) {
+        result.error = `Could not scan the mint: ${error instanceof Error ? error.message : String(error)}`;
+      }
+      try {
+        const stored = await storeUnspentProofs(this.wallet, mint, candidates);
+        result.recovered = stored.reduce((total, proof) => total + proof.amount, 0);
+        result.proofs = stored.length;
+      } catch (error) {
+        result.error = result.error || `Could not check proofs: ${error instanceof Error ? error.message : String(error)}`;
+      }
+      results.push(result);
+    }
+
+    this.wallet.emit('balance_updated');
+    this.saveWallet();
+    return {
+      recovered: results.reduce((total, result) => total + result.recovered, 0),
+      mints: results
+    };
+  }
+
+  exportBackup(): WalletBackup {
+    if (!this.wallet || !this.walletData?.seed || !this.mnemonic) throw new Error('Wallet not initialized');
+
+    const proofs = this.wallet.state.getMintsProofs({ validStates: new Set(['available', 'reserved']) });
+    return {
+      version: 1,
+      createdAt: Date.now(),
+      npub: this.walletData.npub,
+      nsec: this.walletData.bunker ? undefined : this.walletData.nsec,
+      bunker: this.walletData.bunker,
+      bunkerClientKey: this.walletData.bunkerClientKey,
+      encrypted: !!this.walletData.ncryptsec,
+      mnemonic: this.mnemonic,
+      counters: { ...this.walletData.seed.counters },
+      mints: this.wallet.mints || this.walletData.mints,
+      relays: this.walletData.relays,
+      proofs: Object.fromEntries(proofs)
+    };
+  }
+
+  /**
+   * Replaces the wallet file with a backup, connects, and restores the
+   * backed-up proofs plus anything the seed can recover from the mints.
+   * A key that was encrypted when backed up is encrypted again with
+   * the backup's passphrase.
+   */
+  async importBackup(backup: WalletBackup, passphrase: string): Promise<WalletRestore> {
+    this.walletData = {
+      nsec: backup.nsec,
+      ncryptsec: backup.nsec && backup.encrypted ? encryptNsec(backup.nsec, passphrase) : undefined,
+      bunker: backup.bunker,
+      bunkerClientKey: backup.bunkerClientKey,
+      npub: backup.npub,
+      balance: 0,
+      relays: [...backup.relays],
+      mints: [...backup.mints],
+      mintInfoCache: {},
+      seed: { counters: { ...backup.counters } }
+    };
+    this.mnemonic = backup.mnemonic;
+    this.mintInfoCache.clear();
+    this.saveWallet();
+
+    await this.start();
+    return this.restore(backup.proofs);
+  }
+
+  private nwcConfig(): Required<NwcConfig> {
+    if (!this.walletData) throw new Error('Wallet data not loaded');
+
+    const nwc = this.walletData.nwc = this.walletData.nwc || {};
+    if (!nwc.serviceKey) {
+      nwc.serviceKey = Buffer.from(generateSecretKey()).toString('hex');
+      this.saveWallet();
+    }
+    nwc.connections = nwc.connections || {};
+    return nwc as Required<NwcConfig>;
+  }
+
+  /**
+   * Adds a client allowed to use the wallet over Nostr Wallet Connect.
+   * The secret is only part of the returned URI and cannot be shown again.
+   */
+  createNwcConnection(options: {
+    name: string;
+    permissions?: NwcMethod[];
+    budget?: number;
+    budgetPeriod?: NwcBudgetPeriod;
+    expiresInDays?: number;
+  }): { connection: NwcConnection; uri: string } {
+    if (!this.walletData) throw new Error('Wallet data not loaded');
+
+    const nwc = this.nwcConfig();
+    const { connection, secret } = createNwcConnection({
+      name: options.name,
+      permissions: options.permissions,
+      budget: options.budget !== undefined ? { amount: options.budget, period: options.budgetPeriod || 'monthly' } : undefined,
+      expiresAt: options.expiresInDays ? Date.now() + options.expiresInDays * 24 * 60 * 60 * 1000 : undefined
+    });
+    nwc.connections[connection.id] = connection;
+    this.saveWallet();
+
+    const servicePubkey = new NDKPrivateKeySigner(nwc.serviceKey).pubkey;
+    return { connection, uri: connectionUri(servicePubkey, this.walletData.relays, secret) };
+  }
+
+  listNwcConnections(): NwcConnection[] {
+    return Object.values(this.walletData?.nwc?.connections || {}).sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  revokeNwcConnection(id: string): boolean {
+    const connections = this.walletData?.nwc?.connections;
+    if (!connections?.[id]) return false;
+
+    delete connections[id];
+    this.saveWallet();
+    return true;
+  }
+
+  /**
+   * Answers NIP-47 requests from the configured connections. Payments
+   * still go through the spending policy; ones that would need approval
+   * are declined, since there is nobody to ask.
+   */
+  async startNwcService(): Promise<void> {
+    if (!this.ndk) throw new Error('Wallet not initialized');
+
+    const nwc = this.nwcConfig();
+    this.nwcService = new NwcService(this.ndk, nwc.serviceKey, nwc.connections, this.nwcBackend(), () => this.saveWallet());
+    await this.nwcService.start();
+    console.error(`NWC service running as ${this.nwcService.pubkey} for ${Object.keys(nwc.connections).length} connection(s)`);
+  }
+
+  /**
+   * Stops the subscriptions and disconnects from the relays, so an
+   * embedding process (such as the tests) can exit.
+   */
+  close(): void {
+    this.nwcService?.stop();
+    this.nwcService = null;
+    this.nutzapMonitor?.stop();
+    this.nutzapMonitor = null;
+    this.wallet?.stop();
+    for (const relay of this.ndk?.pool.relays.values() || []) {
+      relay.disconnect();
+    }
+  }
+
+  private nwcBackend(): NwcBackend {
+    return {
+      payInvoice: async (invoice) => {
+        let result: PaymentResult;
+        try {
+          result = await this.pay(invoice, { unattended: true });
+        } catch (error) {
+          throw this.nwcError(error);
+        }
+        if (!result.success) {
+          throw new NwcError(result.pending ? 'PAYMENT_PENDING' : 'PAYMENT_FAILED', formatPaymentResult(result));
+        }
+        return { preimage: result.preimage || '', feesPaid: result.fee * 1000 };
+      },
+
+      makeInvoice: async (amount, description) => {
+        // Mints issue whole sats, so msat amounts are rounded up
+        const { depositId } = await this.createDepositInvoice(Math.ceil(amount / 1000));
+        const [transaction] = ledgerToNwcTransactions(this.ledger.entries().filter((e) => e.id === depositId));
+        return { ...transaction, description: description || transaction.description };
+      },
+
+      getBalance: async () => (await this.getBalance()) * 1000,
+
+      lookupInvoice: async ({ payment_hash, invoice }) => {
+        const matches = (transaction: NwcTransaction) =>
+          (payment_hash && transaction.payment_hash === payment_hash) || (invoice && transaction.invoice === invoice);
+
+        // Pending deposits are checked with the mint first so a paid invoice shows as settled
+        const pending = this.ledger.entries().find((entry) =>
+          entry.type === 'deposit' && entry.status === 'pending' && ledgerToNwcTransactions([entry]).some(matches));
+        if (pending) {
+          await this.deposits?.refresh(pending.id);
+        }
+        return ledgerToNwcTransactions(this.ledger.entries()).find(matches);
+      },
+
+      listTransactions: async (params) => selectNwcTransactions(ledgerToNwcTransactions(this.ledger.list()), params)
+    };
+  }
+
+  private nwcError(error: unknown): NwcError {
+    if (error instanceof NwcError) return error;
+
+    const message = error instanceof Error ? error.message : String(error);
+    if (error instanceof PolicyViolationError) {
+      const budgetRule = ['max_per_payment', 'hourly_budget', 'daily_budget'].includes(error.rejection.rule);
+      return new NwcError(budgetRule ? 'QUOTA_EXCEEDED' : 'RESTRICTED', message);
+    }
+    if (error instanceof PaymentDeclinedError) {
+      return new NwcError('RESTRICTED', `${message}: the spending policy requires approval`);
+    }
+    if (errorCode(error) === 'INSUFFICIENT_FUNDS') {
+      return new NwcError('INSUFFICIENT_BALANCE', message);
+    }
+    if (errorCode(error) === 'PAYMENT_PENDING') {
+      return new NwcError('PAYMENT_PENDING', message);
+    }
+    return new NwcError('PAYMENT_FAILED', message);
+  }
+}
+
+interface ToolResult {
+  [key: string]: unknown;
+  content: Array<{ type: 'text'; text: string }>;
+  structuredContent: Record<string, any>;
+  isError?: boolean;
+}
+
+// Release held payments, so they are only offered to a client whose allow list names them, such as a
+// person's dashboard: an agent that could call them would approve its own payments
+const APPROVAL_TOOLS = ['approve_payment'];
+
+/**
+ * Runs the wallet's tools for the MCP server and the CLI. Each result has
+ * text for people and structured content for agents and scripts; errors
+ * become results with a code instead of being thrown.
+ */
+class WalletTools {
+  constructor(private wallet: MCPWallet, private allowedTools?: string[]) {}
+
+  isAllowed(name: string): boolean {
+    return this.allowedTools ? this.allowedTools.includes(name) : !APPROVAL_TOOLS.includes(name);
+  }
+
+  async call(name: string, args: Record<string, any>): Promise<ToolResult> {
+    let result;
+    try {
+      if (!this.isAllowed(name)) {
+        throw new WalletError('PERMISSION_DENIED', `Tool ${name} is not allowed for this client`);
+      }
+      result = await this.callTool(name, args);
+    } catch (error) {
+      if (error instanceof McpError) throw error;
+      result = this.errorResult(errorCode(error), errorMessage(error));
+    }
+    // Tools return their text and fields side by side; the fields are the structured content
+    const { content, isError, ...structuredContent } = result;
+    return { content, structuredContent, isError };
+  }
+
+  private async callTool(name: string, args: any): Promise<any> {
+    switch (name) {
+      case 'get_balance':
+        const units = totalUnitBalances(await this.wallet.getUnitBalances());
+        const balanceFiat = await this.wallet.fiatValue(units.sat || 0, args.currency);
+        return {
+          content: [{ type: 'text', text: `Total balance: ${formatUnitBalances(units, balanceFiat)}` }],
+          balance: units.sat || 0,
+          units,
+          fiat: balanceFiat
+        };
+
+      case 'get_mint_balances':
+        const balances = await this.wallet.getUnitBalances();
+        const totals = totalUnitBalances(balances);
+        const totalFiat = await this.wallet.fiatValue(totals.sat || 0, args.currency);
+        let balanceText = 'Balance per mint:\n';
+        for (const [mintUrl, mintUnits] of Object.entries(balances)) {
+          balanceText += `  ${mintUrl}: ${formatUnitBalances(mintUnits, totalFiat)}\n`;
+        }
+        balanceText += `Total: ${formatUnitBalances(totals, totalFiat)}`;
+        return { content: [{ type: 'text', text: balanceText }], balances, totals, fiat: totalFiat };
+
+      case 'deposit':
+        const { amount, unit, mintUrl } = args;
+        if (!amount) {
+          throw new WalletError('INVALID_ARGUMENT', 'Amount is required');
+        }
+        const depositConversion = await this.wallet.convertAmount(amount, unit);
+        const invoice = await this.wallet.createDepositInvoice(depositConversion.sats, mintUrl);
+        return { 
+          content: [{ 
+            type: 'text', 
+            text: `Deposit invoice created for ${formatConversion(depositConversion)}. Pay this invoice: ${invoice.bolt11}\nTrack it with check_deposit using ID ${invoice.depositId}`
+          }],
+          deposit: this.wallet.getDeposit(invoice.depositId),
+          conversion: unit ? depositConversion : undefined
+        };
+
+      case 'check_deposit':
+        const { depositId } = args;
+        if (!depositId) {
+          throw new WalletError('INVALID_ARGUMENT', 'depositId is required');
+        }
+        const depositRecord = await this.wallet.checkDeposit(depositId);
+        if (!depositRecord) {
+          throw new WalletError('NOT_FOUND', `Unknown deposit: ${depositId}`);
+        }
+        return { content: [{ type: 'text', text: formatDeposit(depositRecord) }], deposit: depositRecord };
+
+      case 'list_deposits':
+        const depositRecords = this.wallet.listDeposits(args.status);
+        const depositsText = depositRecords.length === 0
+          ? 'No deposits found'
+          : depositRecords.map(formatDeposit).join('\n');
+        return { content: [{ type: 'text', text: depositsText }], deposits: depositRecords };
+
+      case 'pay':
+        const { bolt11 } = args;
+        if (!bolt11) {
+          throw new WalletError('INVALID_ARGUMENT', 'bolt11 invoice is required');
+        }
+        let payResult;
+        try {
+          payResult = await this.wallet.pay(bolt11);
+        } catch (error) {
+          const errorResult = this.paymentErrorResult(error);
+          if (errorResult) return errorResult;
+          throw error;
+        }
+
+        const payText = formatPaymentResult(payResult);
+        return {
+          content: [{ type: 'text', text: payText }],
+          ...payResult,
+          bolt11,
+          ...this.paymentFailure(payResult.success, payText, payResult.pending)
+        };
+
+      case 'decode_invoice':
+        const { bolt11: invoiceToDecode } = args;
+        if (!invoiceToDecode) {
+          throw new WalletError('INVALID_ARGUMENT', 'bolt11 invoice is required');
+        }
+        const decodedInvoice = decodeInvoice(invoiceToDecode);
+        return {
+          content: [{ type: 'text', text: formatInvoice(decodedInvoice) }],
+          invoice: {
+            ...decodedInvoice,
+            expired: isInvoiceExpired(decodedInvoice)
+          }
+        };
+
+      case 'quote_payment':
+        const { bolt11: invoiceToQuote } = args;
+        if (!invoiceToQuote) {
+          throw new WalletError('INVALID_ARGUMENT', 'bolt11 invoice is required');
+        }
+        const paymentQuote = await this.wallet.quotePayment(invoiceToQuote);
+        return {
+          content: [{ type: 'text', text: formatPaymentQuote(paymentQuote) }],
+          quote: paymentQuote
+        };
+
+      case 'pay_lightning_address':
+        const { address, amount: addressAmount, unit: addressUnit, comment: addressComment = '' } = args;
+        if (!address || !addressAmount) {
+          throw new WalletError('INVALID_ARGUMENT', 'address and amount are required');
+        }
+        const addressConversion = await this.wallet.convertAmount(addressAmount, addressUnit);
+        let addressResult;
+        try {
+          addressResult = await this.wallet.payLightningAddress(address, addressConversion.sats, addressComment);
+        } catch (error) {
+          const errorResult = this.paymentErrorResult(error);
+          if (errorResult) return errorResult;
+          throw error;
+        }
+
+        const addressText = `${formatPaymentResult(addressResult)} | to ${address}`;
+        return {
+          content: [{ type: 'text', text: addressText }],
+          ...addressResult,
+          address,
+          conversion: addressUnit ? addressConversion : undefined,
+          ...this.paymentFailure(addressResult.success, addressText, addressResult.pending)
+        };
+
+      case 'zap':
+        const { recipient, amount: requestedZapAmount, unit: zapUnit, comment = '' } = args;
+        if (!recipient || !requestedZapAmount) {
+          throw new WalletError('INVALID_ARGUMENT', 'recipient and amount are required');
+        }
+        const zapConversion = await this.wallet.convertAmount(requestedZapAmount, zapUnit);
+        const zapAmount = zapConversion.sats;
+        let zapResult: ZapResult;
+        try {
+          zapResult = await this.wallet.zap(recipient, zapAmount, comment);
+        } catch (error) {
+          const errorResult = this.paymentErrorResult(error);
+          if (errorResult) return errorResult;
+          throw error;
+        }
+        
+        const zapText = formatZapResult(zapResult);
+        return {
+          content: [{
+            type: 'text',
+            text: zapConversion.unit === 'sat' ? zapText : `${zapText}\n(${formatConversion(zapConversion)})`
+          }],
+          success: zapResult.success,
+          recipient,
+          amount: zapAmount,
+          comment,
+          eventId: zapResult.eventId,
+          legs: zapResult.legs,
+          conversion: zapUnit ? zapConversion : undefined,
+          ...this.paymentFailure(zapResult.success, zapText)
+        };
+
+      case 'send_token':
+        const { amount: tokenAmount, unit: tokenUnit, mintUrl: tokenMint, memo } = args;
+        if (!tokenAmount) {
+          throw new WalletError('INVALID_ARGUMENT', 'amount is required');
+        }
+        const tokenConversion = await this.wallet.convertAmount(tokenAmount, tokenUnit);
+        let sent;
+        try {
+          sent = await this.wallet.sendToken(tokenConversion.sats, tokenMint, memo);
+        } catch (error) {
+          const errorResult = this.paymentErrorResult(error);
+          if (errorResult) return errorResult;
+          throw error;
+        }
+        return {
+          content: [{ type: 'text', text: sent.token }],
+          success: true,
+          token: sent.token,
+          amount: sent.amount,
+          conversion: tokenUnit ? tokenConversion : undefined,
+          mintUrl: sent.mint
+        };
+
+      case 'receive_token':
+        const { token, addMint = false } = args;
+        if (!token) {
+          throw new WalletError('INVALID_ARGUMENT', 'token is required');
+        }
+        const received = await this.wallet.receiveToken(token, addMint);
+        let receivedText = `Received ${received.amount} sats from ${received.mint}`;
+        if (received.mintAdded) {
+          receivedText += ' (mint added to the wallet)';
+        } else if (!received.knownMint) {
+          receivedText += '. This mint is not in the wallet\'s mint list; pass addMint to add it.';
+        }
+        return {
+          content: [{ type: 'text', text: receivedText }],
+          success: true,
+          amount: received.amount,
+          mintUrl: received.mint,
+          mintAdded: received.mintAdded
+        };
+
+      case 'approve_payment':
+        const { paymentId, reject } = args;
+        if (!paymentId) {
+          const pendingPayments = this.wallet.listPendingPayments();
+          const pendingText = pendingPayments.length === 0
+            ? 'No payments are pending approval'
+            : pendingPayments.map((p) => `${p.paymentId}:\n${describeApprovalRequest(p.request)}`).join('\n\n');
+          return { content: [{ type: 'text', text: pendingText }], pendingPayments };
+        }
+        if (reject) {
+          if (!this.wallet.rejectPayment(paymentId)) {
+            throw new WalletError('NOT_FOUND', `No pending payment with id ${paymentId}`);
+          }
+          return { content: [{ type: 'text', text: `Discarded payment ${paymentId}` }], success: true, paymentId };
+        }
+        let approvedResult;
+        try {
+          approvedResult = await this.wallet.approvePayment(paymentId);
+        } catch (error) {
+          const errorResult = this.paymentErrorResult(error);
+          if (errorResult) return errorResult;
+          throw error;
+        }
+        const approvedSucceeded = !!approvedResult && approvedResult.success !== false;
+        const approvedText = approvedSucceeded ? `Payment ${paymentId} sent` : `Payment ${paymentId} failed`;
+        return {
+          content: [{ type: 'text', text: approvedText }],
+          success: approvedSucceeded,
+          paymentId,
+          result: approvedResult,
+          ...this.paymentFailure(approvedSucceeded, approvedText)
+        };
+
+      case 'list_incoming_zaps':
+        const { status: zapStatus, limit: zapLimit } = args;
+        let incomingZaps = this.wallet.listIncomingZaps(zapStatus);
+        if (zapLimit) incomingZaps = incomingZaps.slice(0, zapLimit);
+        const incomingZapsText = incomingZaps.length === 0
+          ? 'No incoming zaps found'
+          : incomingZaps.map(formatIncomingZap).join('\n');
+        return {
+          content: [{ type: 'text', text: incomingZapsText }],
+          incomingZaps: incomingZaps.map(({ event, ...zap }) => zap)
+        };
+
+      case 'list_transactions':
+        const transactions = this.wallet.listTransactions(parseLedgerFilter(args));
+        const transactionsText = transactions.length === 0
+          ? 'No transactions found'
+          : transactions.map(formatTransaction).join('\n');
+        return { content: [{ type: 'text', text: transactionsText }], transactions };
+
+      case 'export_transactions':
+        const { format } = args;
+        if (format !== 'csv' && format !== 'json') {
+          throw new WalletError('INVALID_ARGUMENT', 'format must be "csv" or "json"');
+        }
+        const exportedTransactions = this.wallet.listTransactions(parseLedgerFilter(args));
+        const exported = exportTransactions(exportedTransactions, format);
+        return { content: [{ type: 'text', text: exported }], format, count: exportedTransactions.length, data: exported };
+
+      case 'remove_mint':
+        const { mintUrl: mintToRemove, targetMint } = args;
+        if (!mintToRemove) {
+          throw new WalletError('INVALID_ARGUMENT', 'mintUrl is required');
+        }
+        const removed = await this.wallet.removeMint(mintToRemove, targetMint);
+        const removedLines = [`Removed mint: ${mintToRemove}`];
+        if (removed.transfer) removedLines.push(formatMintTransfer(removed.transfer));
+        if (removed.remaining > 0) removedLines.push(`${removed.remaining} sats could not be moved and remain in the wallet`);
+        return { content: [{ type: 'text', text: removedLines.join('\n') }], ...removed };
+
+      case 'rebalance':
+        const { targets, caps, minTransfer, dryRun } = args;
+        const rebalanced = await this.wallet.rebalance({ targets, caps, minTransfer }, dryRun);
+        const rebalanceLines = [formatRebalancePlan(rebalanced.plan)];
+        for (const result of rebalanced.transfers) {
+          rebalanceLines.push(result.transfer
+            ? formatMintTransfer(result.transfer)
+            : `Failed to move ${result.amount} sats from ${result.from} to ${result.to}: ${result.error}`);
+        }
+        return { content: [{ type: 'text', text: rebalanceLines.join('\n') }], ...rebalanced };
+
+      case 'get_mint_info':
+        const { mintUrl: infoMint, refresh } = args;
+        if (!infoMint) {
+          throw new WalletError('INVALID_ARGUMENT', 'mintUrl is required');
+        }
+        const mintInfo = await this.wallet.getMintInfo(infoMint, refresh);
+        return {
+          content: [{ type: 'text', text: formatMintInfo(infoMint, mintInfo) }],
+          mintUrl: infoMint,
+          mintInfo
+        };
+
+      case 'check_mints':
+        const mintHealth = await this.wallet.checkMints();
+        return {
+          content: [{ type: 'text', text: mintHealth.length === 0 ? 'No mints configured' : mintHealth.map(formatMintHealth).join('\n') }],
+          mints: mintHealth.map(({ info, ...health }) => health)
+        };
+
+      case 'add_mint':
+        const { mintUrl: mintToAdd } = args;
+        if (!mintToAdd) {
+          throw new WalletError('INVALID_ARGUMENT', 'mintUrl is required');
+        }
+        await this.wallet.addMint(mintToAdd);
+        return { content: [{ type: 'text', text: `Added mint: ${mintToAdd}` }], mintUrl: mintToAdd };
+
+      case 'verify_wallet':
+        const verification = await this.wallet.verifyWallet(args.consolidate !== false);
+        return {
+          content: [{ type: 'text', text: formatWalletVerification(verification) }],
+          ...verification
+        };
+
+      case 'restore':
+        const restored = await this.wallet.restore();
+        return {
+          content: [{ type: 'text', text: formatWalletRestore(restored) }],
+          ...restored
+        };
+
+      case 'list_relays':
+        const relays = this.wallet.listRelays();
+        return {
+          content: [{ type: 'text', text: relays.map(formatRelayStatus).join('\n') }],
+          relays
+        };
+
+      case 'add_relay':
+        const addedRelay = await this.wallet.addRelay(args.url);
+        return {
+          content: [{ type: 'text', text: `Added relay: ${formatRelayStatus(addedRelay)}` }],
+          relay: addedRelay
+        };
+
+      case 'remove_relay':
+        this.wallet.removeRelay(args.url);
+        return { content: [{ type: 'text', text: `Removed relay: ${args.url}` }], url: args.url };
+
+      case 'create_nwc_connection':
+        const created = this.wallet.createNwcConnection(args);
+        return {
+          content: [{
+            type: 'text',
+            text: `Created NWC connection ${formatNwcConnection(created.connection)}\n${created.uri}\nThe wallet only answers while it runs with serve --nwc.`
+          }],
+          connection: created.connection,
+          uri: created.uri
+        };
+
+      case 'list_nwc_connections':
+        const nwcConnections = this.wallet.listNwcConnections();
+        return {
+          content: [{
+            type: 'text',
+            text: nwcConnections.length ? nwcConnections.map(formatNwcConnection).join('\n') : 'No NWC connections'
+          }],
+          connections: nwcConnections
+        };
+
+      case 'revoke_nwc_connection':
+        if (!this.wallet.revokeNwcConnection(args.id)) {
+          throw new WalletError('NOT_FOUND', `Unknown NWC connection: ${args.id}`);
         }
+        return { content: [{ type: 'text', text: `Revoked NWC connection ${args.id}` }], id: args.id };
+
+      default:
+        throw new McpError(ErrorCode.InvalidParams, `Unknown tool: ${name}`);
+    }
+  }
+
+  private paymentErrorResult(error: unknown): any | undefined {
+    if (error instanceof PolicyViolationError) {
+      return this.policyRejection(error.rejection);
+    }
+
+    if (error instanceof PaymentDeclinedError) {
+      return { ...this.errorResult('PAYMENT_DECLINED', `Payment declined: ${error.message}`), success: false };
+    }
+
+    if (error instanceof ApprovalPendingError) {
+      const { paymentId, request } = error.pending;
+      return {
+        content: [{
+          type: 'text',
+          text: `Payment is held until the user approves it (${paymentId}). Wait for the user to decide; it is discarded if not approved within an hour.\n${describeApprovalRequest(request)}`
+        }],
+        success: false,
+        pending: true,
+        paymentId,
+        approval: request
+      };
+    }
+
+    return undefined;
+  }
+
+  private policyRejection(rejection: PolicyRejection): any {
+    return {
+      ...this.errorResult('POLICY_REJECTED', `Payment rejected by spending policy: ${rejection.message}`),
+      success: false,
+      rejection
+    };
+  }
+
+  /**
+   * A tool error, with its code in the text for people and under
+   * `error` in the structured content for agents.
+   */
+  private errorResult(code: WalletErrorCode, message: string): any {
+    return {
+      content: [{ type: 'text', text: `${code}: ${message}` }],
+      isError: true,
+      error: { code, message }
+    };
+  }
+
+  // Turns a payment that went out but failed into a tool error, keeping its details
+  private paymentFailure(success: boolean, message: string, pending = false): any {
+    return success ? {} : { isError: true, error: { code: pending ? 'PAYMENT_PENDING' : 'PAYMENT_FAILED', message } };
+  }
+}
+
+// MCP Server functionality using official TypeScript SDK
+interface MCPServerOptions {
+  // Tools this server lists and runs; all but the approval tools when omitted
+  allowedTools?: string[];
+}
+
+// The MCPServer handling the current tool call, when several share a wallet
+const approvalScope = new AsyncLocalStorage<MCPServer>();
+
+class MCPServer {
+  private server: Server;
+  private wallet: MCPWallet;
+  private tools: WalletTools;
+  private removeChangeListener: () => void;
+  private closed = false;
+  private subscriptions = new Set<string>();
+  // Resource updates waiting to be sent, so bursts of changes go out once
+  private pendingUpdates = new Set<string>();
+
+  constructor(wallet: MCPWallet, options: MCPServerOptions = {}) {
+    this.wallet = wallet;
+    this.tools = new WalletTools(wallet, options.allowedTools);
+    this.server = new Server(
+      {
+        name: "mcp-nostr-wallet",
+        version: "0.1.0",
+      },
+      {
+        capabilities: {
+          tools: {},
+          resources: { subscribe: true, listChanged: true },
+        },
+      }
+    );
+
+    this.setupHandlers();
+    this.setupResourceHandlers();
+    this.wallet.setApprovalHandler((request) => (approvalScope.getStore() || this).askForApproval(request));
+    this.removeChangeListener = this.wallet.addChangeListener((change) => this.handleWalletChange(change));
+  }
+
+  private setupResourceHandlers(): void {
+    this.server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      const mintResources = this.wallet.listMints().map((mint) => ({
+        uri: mintInfoUri(mint),
+        name: `mint_info ${mint}`,
+        description: `NUT-06 info for ${mint}`,
+        mimeType: 'application/json'
+      }));
+      return { resources: [...WALLET_RESOURCES, ...mintResources].filter((resource) => this.canRead(resource.uri)) };
+    });
+
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return { resourceTemplates: WALLET_RESOURCE_TEMPLATES.filter((template) => this.canRead(template.uriTemplate)) };
+    });
+
+    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      const { uri } = request.params;
+      this.checkReadable(uri);
+      const data = await this.readResource(uri);
+      return {
+        contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(data, null, 2) }]
+      };
+    });
+
+    this.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      this.checkReadable(request.params.uri);
+      this.subscriptions.add(request.params.uri);
+      return {};
+    });
+
+    this.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      this.subscriptions.delete(request.params.uri);
+      return {};
+    });
+  }
+
+  private canRead(uri: string): boolean {
+    const tool = resourceTool(uri);
+    return !!tool && this.tools.isAllowed(tool);
+  }
+
+  // Unknown resources are left for readResource to report
+  private checkReadable(uri: string): void {
+    const tool = resourceTool(uri);
+    if (tool && !this.tools.isAllowed(tool)) {
+      throw new McpError(ErrorCode.InvalidParams, `Resource ${uri} is not allowed for this client`);
+    }
+  }
+
+  private async readResource(uri: string): Promise<any> {
+    switch (uri) {
+      case BALANCE_URI:
+        const mintUnits = await this.wallet.getUnitBalances();
+        const units = totalUnitBalances(mintUnits);
+        return {
+          balance: units.sat || 0,
+          units,
+          mints: mintUnits,
+          fiat: await this.wallet.fiatValue(units.sat || 0)
+        };
+
+      case MINTS_URI:
+        const balances = await this.wallet.getUnitBalances();
+        return {
+          mints: this.wallet.listMints().map((mint) => ({
+            url: mint,
+            name: this.wallet.getCachedMintInfo(mint)?.name,
+            balance: balances[mint]?.sat || 0,
+            units: balances[mint] || {}
+          }))
+        };
+
+      case TRANSACTIONS_URI:
+        return { transactions: this.wallet.listTransactions({ limit: RESOURCE_TRANSACTION_LIMIT }) };
+
+      default:
+        const mint = parseMintInfoUri(uri);
+        if (!mint) {
+          throw new Error(`Unknown resource: ${uri}`);
+        }
+        return { mint, info: await this.wallet.getMintInfo(mint) };
+    }
+  }
+
+  private handleWalletChange(change: WalletChange): void {
+    if (change.resource === 'mints') {
+      this.server.sendResourceListChanged().catch((error) => {
+        console.error('Failed to send resource list change:', error);
+      });
+    }
+
+    const uris = changedUris(change).filter((uri) => this.subscriptions.has(uri));
+    if (uris.length === 0) return;
+
+    const flush = this.pendingUpdates.size === 0;
+    uris.forEach((uri) => this.pendingUpdates.add(uri));
+    if (!flush) return;
+
+    setImmediate(() => {
+      const pending = Array.from(this.pendingUpdates);
+      this.pendingUpdates.clear();
+      for (const uri of pending) {
+        this.server.sendResourceUpdated({ uri }).catch((error) => {
+          console.error(`Failed to send update for ${uri}:`, error);
+        });
+      }
+    });
+  }
+
+  private setupHandlers(): void {
+    const transactionFilterProperties = {
+      since: { type: 'string', description: 'Only include transactions at or after this date (ISO date or unix timestamp)' },
+      until: { type: 'string', description: 'Only include transactions at or before this date (ISO date or unix timestamp)' },
+      type: { type: 'string', enum: TRANSACTION_TYPES, description: 'Only include transactions of this type' },
+      counterparty: { type: 'string', description: 'Only include transactions whose counterparty contains this text' },
+      limit: { type: 'number', description: 'Maximum number of transactions to return' }
+    };
+
+    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+      return {
+        tools: [
+          {
+            name: 'get_balance',
+            description: 'Get the total wallet balance per unit, with its value in a fiat currency if one is given or configured',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                currency: { type: 'string', description: 'Fiat currency to also show the balance in, e.g. usd (optional)' }
+              },
+              required: []
+            }
+          },
+          {
+            name: 'get_mint_balances', 
+            description: 'Get balance breakdown per mint and unit',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                currency: { type: 'string', description: 'Fiat currency to also show balances in, e.g. usd (optional)' }
+              },
+              required: []
+            }
+          },
+          {
+            name: 'deposit',
+            description: 'Create a deposit invoice (bolt11) for the specified amount and mint. Returns the invoice immediately for payment. If no mint is specified, all mints will be tried concurrently and the first successful response will be used.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                amount: { type: 'number', description: 'Amount, in sats unless unit is given' },
+                unit: { type: 'string', description: UNIT_DESCRIPTION },
+                mintUrl: { type: 'string', description: 'Mint URL to deposit to (optional - all mints tried concurrently if not provided)' }
+              },
+              required: ['amount']
+            }
+          },
+          {
+            name: 'check_deposit',
+            description: 'Check whether a deposit invoice has been paid. Reports pending, paid, expired or failed.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                depositId: { type: 'string', description: 'Deposit ID returned by the deposit tool' }
+              },
+              required: ['depositId']
+            }
+          },
+          {
+            name: 'list_deposits',
+            description: 'List deposits and their status',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                status: { type: 'string', enum: ['pending', 'paid', 'expired', 'failed'], description: 'Only list deposits with this status' }
+              },
+              required: []
+            }
+          },
+          {
+            name: 'pay',
+            description: 'Pay a Lightning invoice',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                bolt11: { type: 'string', description: 'Lightning invoice to pay' }
+              },
+              required: ['bolt11']
+            }
+          },
+          {
+            name: 'decode_invoice',
+            description: 'Decode a Lightning invoice: amount, description, payee, payment hash and expiry',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                bolt11: { type: 'string', description: 'Lightning invoice to decode' }
+              },
+              required: ['bolt11']
+            }
+          },
+          {
+            name: 'quote_payment',
+            description: 'Preview paying a Lightning invoice without paying it: amount, expiry, payee, description, which mint would pay, the melt fee reserve and whether the balance is enough',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                bolt11: { type: 'string', description: 'Lightning invoice to quote' }
+              },
+              required: ['bolt11']
+            }
+          },
+          {
+            name: 'pay_lightning_address',
+            description: 'Pay a Lightning address (name@domain) or LNURL-pay string (lnurl1...)',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                address: { type: 'string', description: 'Lightning address or lnurl1... string' },
+                amount: { type: 'number', description: 'Amount, in sats unless unit is given' },
+                unit: { type: 'string', description: UNIT_DESCRIPTION },
+                comment: { type: 'string', description: 'Optional comment for the recipient, if the service accepts one' }
+              },
+              required: ['address', 'amount']
+            }
+          },
+          {
+            name: 'zap',
+            description: 'Zap a user or a specific note or event. Events with zap split tags are split between their recipients; the result lists each leg with its receipt',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                recipient: { type: 'string', description: 'User npub, hex pubkey or NIP-05 identifier, or a note1, nevent1 or naddr1 event to zap' },
+                amount: { type: 'number', description: 'Amount, in sats unless unit is given' },
+                unit: { type: 'string', description: UNIT_DESCRIPTION },
+                comment: { type: 'string', description: 'Optional comment' }
+              },
+              required: ['recipient', 'amount']
+            }
+          },
+          {
+            name: 'send_token',
+            description: 'Create a Cashu ecash token for the specified amount. Returns a serialized token string (cashuB...) that anyone can redeem.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                amount: { type: 'number', description: 'Amount, in sats unless unit is given' },
+                unit: { type: 'string', description: UNIT_DESCRIPTION },
+                mintUrl: { type: 'string', description: 'Mint that should issue the token (optional - any mint with enough balance is used if not provided)' },
+                memo: { type: 'string', description: 'Optional memo to include in the token' }
+              },
+              required: ['amount']
+            }
+          },
+          {
+            name: 'receive_token',
+            description: 'Redeem a Cashu token (cashuA... or cashuB...) into the wallet by swapping it at the issuing mint',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                token: { type: 'string', description: 'Serialized Cashu token' },
+                addMint: { type: 'boolean', description: 'Add the issuing mint to the wallet if it is not configured yet' }
+              },
+              required: ['token']
+            }
+          },
+          {
+            name: 'approve_payment',
+            description: 'Release a payment that is being held pending human approval. Call without paymentId to list held payments.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                paymentId: { type: 'string', description: 'ID of the held payment (optional - lists held payments if not provided)' },
+                reject: { type: 'boolean', description: 'Discard the held payment instead of sending it' }
+              },
+              required: []
+            }
+          },
+          {
+            name: 'list_incoming_zaps',
+            description: 'List nutzaps (NIP-61) received by this wallet: who sent them, how much, their comment and whether they were redeemed',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                status: { type: 'string', enum: Object.values(NdkNutzapStatus), description: 'Only list nutzaps with this status' },
+                limit: { type: 'number', description: 'Maximum number of nutzaps to return' }
+              },
+              required: []
+            }
+          },
+          {
+            name: 'list_transactions',
+            description: 'List recorded deposits, payments, zaps, received tokens and fees, newest first',
+            inputSchema: {
+              type: 'object',
+              properties: transactionFilterProperties,
+              required: []
+            }
+          },
+          {
+            name: 'export_transactions',
+            description: 'Export recorded transactions as CSV or JSON',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                format: { type: 'string', enum: ['csv', 'json'], description: 'Export format' },
+                ...transactionFilterProperties
+              },
+              required: ['format']
+            }
+          },
+          {
+            name: 'remove_mint',
+            description: 'Remove a mint from the wallet. Its balance is first moved over Lightning to another configured mint',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                mintUrl: { type: 'string', description: 'Mint URL to remove' },
+                targetMint: { type: 'string', description: 'Configured mint to move the funds to (default: the reachable mint holding the least)' }
+              },
+              required: ['mintUrl']
+            }
+          },
+          {
+            name: 'rebalance',
+            description: 'Spread funds across the configured mints to target percentages or per-mint caps (evenly if neither is given), moving funds over Lightning',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                targets: {
+                  type: 'object',
+                  description: 'Percentage of the total per mint URL, adding up to 100',
+                  additionalProperties: { type: 'number' }
+                },
+                caps: {
+                  type: 'object',
+                  description: 'Maximum sats per mint URL; the excess moves to mints with room',
+                  additionalProperties: { type: 'number' }
+                },
+                minTransfer: { type: 'number', description: 'Skip moves smaller than this many sats (default: 10)' },
+                dryRun: { type: 'boolean', description: 'Only show the planned moves' }
+              },
+              required: []
+            }
+          },
+          {
+            name: 'get_mint_info',
+            description: 'Get information about a mint: name, MOTD, contact details and supported NUTs',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                mintUrl: { type: 'string', description: 'Mint URL' },
+                refresh: { type: 'boolean', description: 'Fetch fresh info instead of using the cache' }
+              },
+              required: ['mintUrl']
+            }
+          },
+          {
+            name: 'check_mints',
+            description: 'Check every configured mint for reachability, latency, active keysets and support for the required NUTs (4, 5, 7, 11, 12)',
+            inputSchema: {
+              type: 'object',
+              properties: {},
+              required: []
+            }
+          },
+          {
+            name: 'add_mint',
+            description: 'Add a mint to the wallet. The mint must be reachable and support the required NUTs (4, 5, 7, 11, 12)',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                mintUrl: { type: 'string', description: 'Mint URL to add' }
+              },
+              required: ['mintUrl']
+            }
+          },
+          {
+            name: 'verify_wallet',
+            description: 'Check every proof with its mint (NUT-07): remove proofs spent elsewhere, recover ones stranded by an interrupted payment and consolidate small proofs. Reports the balance per mint before and after',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                consolidate: { type: 'boolean', description: 'Swap many small proofs for fewer larger ones (default: true); costs the mint\'s input fees' }
+              },
+              required: []
+            }
+          },
+          {
+            name: 'restore',
+            description: 'Rescan every mint for proofs derived from the wallet seed (NUT-13) and store the unspent ones the wallet is missing, e.g. after token events were lost',
+            inputSchema: {
+              type: 'object',
+              properties: {},
+              required: []
+            }
+          },
+          {
+            name: 'list_relays',
+            description: 'List the relays the wallet uses and whether each is connected',
+            inputSchema: {
+              type: 'object',
+              properties: {},
+              required: []
+            }
+          },
+          {
+            name: 'add_relay',
+            description: 'Add a relay to the wallet. Wallet and token events are published to it from then on',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                url: { type: 'string', description: 'Relay URL (wss://...)' }
+              },
+              required: ['url']
+            }
+          },
+          {
+            name: 'remove_relay',
+            description: 'Stop using a relay. It is not added back from the NIP-65 relay list on the next start',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                url: { type: 'string', description: 'Relay URL to remove' }
+              },
+              required: ['url']
+            }
+          },
+          {
+            name: 'create_nwc_connection',
+            description: 'Create a Nostr Wallet Connect (NIP-47) connection string for an app, with its own permissions, budget and expiry. The string contains a secret and is only shown once',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                name: { type: 'string', description: 'Name of the app or client the connection is for' },
+                permissions: {
+                  type: 'array',
+                  items: { type: 'string', enum: [...NWC_METHODS] },
+                  description: 'NWC methods the connection may use (default: all)'
+                },
+                budget: { type: 'number', description: 'Maximum sats the connection may spend per budget period, including fees' },
+                budgetPeriod: {
+                  type: 'string',
+                  enum: ['daily', 'weekly', 'monthly', 'yearly', 'never'],
+                  description: 'Period the budget applies to (default: monthly); never makes it a lifetime total'
+                },
+                expiresInDays: { type: 'number', description: 'Days until the connection stops working' }
+              },
+              required: ['name']
+            }
+          },
+          {
+            name: 'list_nwc_connections',
+            description: 'List Nostr Wallet Connect connections with their permissions and remaining budget',
+            inputSchema: {
+              type: 'object',
+              properties: {},
+              required: []
+            }
+          },
+          {
+            name: 'revoke_nwc_connection',
+            description: 'Revoke a Nostr Wallet Connect connection so its app can no longer use the wallet',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                id: { type: 'string', description: 'Connection ID from list_nwc_connections' }
+              },
+              required: ['id']
+            }
+          }
+        ]
+          .filter((tool) => this.tools.isAllowed(tool.name))
+          .map((tool) => ({ ...tool, outputSchema: TOOL_OUTPUT_SCHEMAS[tool.name] }))
+      };
+    });
 
-      case 'add_mint':
-        const { mintUrl: mintToAdd } = args;
-        if (!mintToAdd) {
-          throw new Error('mintUrl is required');
+    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+      const { name, arguments: args } = request.params;
+      // Lets the wallet route approval prompts back to this client
+      return await approvalScope.run(this, () => this.tools.call(name, args || {}));
+    });
+  }
+
+  /**
+   * Asks the connected client to confirm a payment through MCP
+   * elicitation. Clients without elicitation support get the payment
+   * held until a client allowed approve_payment releases it.
+   */
+  private async askForApproval(request: PaymentApprovalRequest): Promise<'approved' | 'declined' | 'pending'> {
+    if (!this.server.getClientCapabilities()?.elicitation) {
+      return 'pending';
+    }
+
+    try {
+      const result = await this.server.elicitInput({
+        message: describeApprovalRequest(request),
+        requestedSchema: {
+          type: 'object',
+          properties: {
+            approve: {
+              type: 'boolean',
+              title: 'Approve payment',
+              description: `Send ${request.amount} sats to ${request.destination}`
+            }
+          },
+          required: ['approve']
         }
-        await this.wallet.addMint(mintToAdd);
-        return { content: [{ type: 'text', text: `Added mint: ${mintToAdd}` }] };
+      });
 
-      default:
-        throw new Error(`Unknown tool: ${name}`);
+      return result.action === 'accept' && result.content?.approve === true ? 'approved' : 'declined';
+    } catch (error) {
+      console.error('Elicitation failed, holding payment for approval:', error);
+      return 'pending';
     }
   }
 
   async run(): Promise<void> {
-    const transport = new StdioServerTransport();
+    await this.connect(new StdioServerTransport());
+  }
+
+  async connect(transport: Transport): Promise<void> {
     await this.server.connect(transport);
   }
+
+  async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+    this.removeChangeListener();
+    await this.server.close();
+  }
 }
 
-async function runMCPServer(nsecOverride?: string): Promise<void> {
-  const wallet = new MCPWallet();
-  await wallet.initialize(nsecOverride);
+async function runMCPServer(
+  location: WalletLocation,
+  nsecOverride?: string,
+  bunkerOverride?: string,
+  nwc = false,
+  defaults?: WalletDefaults
+): Promise<void> {
+  const wallet = new MCPWallet(location, defaults);
+  await wallet.initialize(nsecOverride, bunkerOverride);
   const server = new MCPServer(wallet);
 
   await server.run();
+  await wallet.startNutzapMonitor();
+  if (nwc) await wallet.startNwcService();
+}
+
+/**
+ * Serves one wallet to several clients over Streamable HTTP, so they
+ * share a process instead of each racing on the wallet file.
+ */
+async function runHttpServer(
+  location: WalletLocation,
+  port: number,
+  host: string,
+  nsecOverride?: string,
+  bunkerOverride?: string,
+  nwc = false,
+  defaults?: WalletDefaults
+): Promise<void> {
+  const wallet = new MCPWallet(location, defaults);
+  await wallet.initialize(nsecOverride, bunkerOverride);
+
+  await serveHttp(
+    { port, host, tokens: wallet.getHttpTokens() },
+    (token) => new MCPServer(wallet, { allowedTools: token.tools })
+  );
+  await wallet.startNutzapMonitor();
+  if (nwc) await wallet.startNwcService();
 }
 
-function parseArgs(args: string[]): { nsec?: string; command?: string; remainingArgs: string[] } {
+function parseArgs(args: string[]): {
+  nsec?: string;
+  bunker?: string;
+  walletFile?: string;
+  profile?: string;
+  regtest: boolean;
+  json: boolean;
+  help: boolean;
+  command?: string;
+  remainingArgs: string[];
+} {
   let nsec: string | undefined;
+  let bunker: string | undefined;
+  let walletFile: string | undefined;
+  let profile: string | undefined;
+  let regtest = false;
+  let json = false;
+  let help = false;
   let command: string | undefined;
   const remainingArgs: string[] = [];
-  
+
   for (let i = 0; i < args.length; i++) {
     if (args[i] === '--nsec' && i + 1 < args.length) {
       nsec = args[i + 1];
       i++; // Skip the nsec value
+    } else if (args[i] === '--bunker' && i + 1 < args.length) {
+      bunker = args[i + 1];
+      i++; // Skip the bunker URI
+    } else if (args[i] === '--wallet-file' && i + 1 < args.length) {
+      walletFile = args[i + 1];
+      i++; // Skip the path
+    } else if (args[i] === '--profile' && i + 1 < args.length) {
+      profile = args[i + 1];
+      i++; // Skip the profile name
+    } else if (args[i] === '--regtest') {
+      regtest = true;
+    } else if (args[i] === '--json') {
+      json = true;
+    } else if (args[i] === '--help' || args[i] === '-h') {
+      help = true;
     } else if (!command) {
       command = args[i];
     } else {
       remainingArgs.push(args[i]);
     }
   }
-  
-  return { nsec, command, remainingArgs };
+
+  return { nsec, bunker, walletFile, profile, regtest, json, help, command, remainingArgs };
+}
+
+function textResult(text: string, structuredContent: Record<string, any> = {}): ToolResult {
+  return { content: [{ type: 'text', text }], structuredContent };
+}
+
+function errorToolResult(error: unknown): ToolResult {
+  const code = errorCode(error);
+  const message = errorMessage(error);
+  return {
+    content: [{ type: 'text', text: `${code}: ${message}` }],
+    structuredContent: { error: { code, message } },
+    isError: true
+  };
+}
+
+/**
+ * Prints a command's result and exits, with status 1 if it failed. With
+ * --json the structured result goes to stdout even for errors, so
+ * scripts always get one JSON document to parse.
+ */
+function exitWithResult(result: ToolResult, json: boolean): never {
+  if (json) {
+    process.stdout.write(`${JSON.stringify(result.structuredContent, null, 2)}\n`);
+  } else {
+    const text = result.content.map((item) => item.text).join('\n');
+    if (result.isError) {
+      console.error(text);
+    } else {
+      console.log(text);
+    }
+  }
+  process.exit(result.isError ? 1 : 0);
+}
+
+/**
+ * Runs the key management commands, which only need the wallet file
+ * and not a connection to relays or mints.
+ */
+async function runKeyCommand(
+  command: string,
+  location: WalletLocation,
+  nsecOverride?: string,
+  bunkerOverride?: string
+): Promise<ToolResult> {
+  const wallet = new MCPWallet(location);
+  await wallet.open(nsecOverride, bunkerOverride);
+
+  if (command === 'encrypt_wallet') {
+    if (wallet.isEncrypted()) {
+      throw new WalletError('INVALID_ARGUMENT', 'Wallet is already encrypted; use change_passphrase to change the passphrase');
+    }
+    wallet.encryptWallet(process.env[PASSPHRASE_ENV] || await promptNewPassphrase());
+    return textResult(`Wallet key encrypted in ${wallet.getWalletFile()}`, { walletFile: wallet.getWalletFile() });
+  }
+
+  wallet.changePassphrase(await promptNewPassphrase());
+  return textResult('Passphrase changed', { walletFile: wallet.getWalletFile() });
+}
+
+/**
+ * Restores a wallet from an export_backup file into the wallet
+ * location, then recovers its proofs. Refuses to replace an existing
+ * wallet file unless forced, since its key may hold other funds.
+ */
+async function runImportBackup(args: Record<string, any>, location: WalletLocation): Promise<ToolResult> {
+  if (existsSync(location.walletFile) && !args.force) {
+    throw new WalletError('INVALID_ARGUMENT', `${location.walletFile} already exists; pass --force to replace it, or --profile to import into a new profile`);
+  }
+
+  const content = readFileSync(args.file, 'utf8');
+  const passphrase = process.env[PASSPHRASE_ENV] || await promptPassphrase('Backup passphrase: ');
+  const backup = decryptBackup(content, passphrase);
+
+  const wallet = new MCPWallet(location);
+  const restored = await wallet.importBackup(backup, passphrase);
+  const balance = await wallet.getBalance();
+  return textResult([
+    formatBackupSummary(backup),
+    formatWalletRestore(restored),
+    `Wallet restored to ${wallet.getWalletFile()}. Balance: ${balance} sats`
+  ].join('\n'), { walletFile: wallet.getWalletFile(), balance, restore: restored });
+}
+
+/**
+ * Lists, creates and switches wallet profiles. Profiles live under the
+ * config directory, each with its own wallet file and ledger.
+ */
+async function runProfileCommand(
+  command: string,
+  args: Record<string, any>,
+  nsecOverride?: string,
+  bunkerOverride?: string
+): Promise<ToolResult> {
+  switch (command) {
+    case 'list_profiles':
+      const profiles = listProfiles();
+      const profilesText = profiles.length === 0
+        ? 'No profiles found'
+        : profiles.map((profile) => `${profile.active ? '*' : ' '} ${profile.name}${profile.npub ? ` (${profile.npub})` : ''}`).join('\n');
+      return textResult(profilesText, { profiles });
+
+    case 'create_profile':
+      validateProfileName(args.name);
+      if (profileExists(args.name)) {
+        throw new WalletError('INVALID_ARGUMENT', `Profile ${args.name} already exists`);
+      }
+
+      const walletFile = profileWalletFile(args.name);
+      const wallet = new MCPWallet({ walletFile, ledgerFile: ledgerFileFor(walletFile), profile: args.name });
+      await wallet.open(nsecOverride, bunkerOverride);
+      const npub = wallet.getNpub();
+      return textResult(`Created profile ${args.name}${npub ? ` (${npub})` : ''} in ${walletFile}`, { profile: args.name, npub, walletFile });
+
+    default:
+      setActiveProfile(args.name);
+      return textResult(`Switched to profile ${args.name}`, { profile: args.name });
+  }
+}
+
+/**
+ * Runs a command against an initialized wallet. Most run the tool of
+ * the same name; deposit waits on the terminal for its invoice to be
+ * paid and export_backup writes secrets to a file, so neither is a tool.
+ */
+async function runWalletCommand(wallet: MCPWallet, command: string, args: Record<string, any>): Promise<ToolResult> {
+  const tool = CLI_COMMANDS[command].tool;
+  if (tool) {
+    return new WalletTools(wallet).call(tool, args);
+  }
+
+  if (command === 'deposit') {
+    const conversion = await wallet.convertAmount(args.amount, args.unit);
+    const deposited = await wallet.deposit(conversion.sats, args.mintUrl);
+    const deposit = wallet.getDeposit(deposited.depositId);
+    const text = deposited.timeout
+      ? `Deposit ${deposited.depositId} is not paid yet; check it later with check_deposit ${deposited.depositId}`
+      : formatDeposit(deposit!);
+    return textResult(text, { deposit, conversion: args.unit ? conversion : undefined });
+  }
+
+  const backup = wallet.exportBackup();
+  writePrivateFile(args.file, encryptBackup(backup, process.env[PASSPHRASE_ENV] || await promptNewPassphrase()));
+  return textResult(`${formatBackupSummary(backup)}\nEncrypted backup written to ${args.file}`, { file: args.file });
+}
+
+/**
+ * Starts fake mints, in-memory relays and a Lightning address service
+ * in this process and points new wallets at them, so nothing reaches
+ * the network. Without --wallet-file the wallet is a throwaway one.
+ */
+async function startRegtest(walletFile?: string): Promise<{ location: WalletLocation; defaults: WalletDefaults }> {
+  const network = await RegtestNetwork.start();
+  network.install();
+  // process.exit skips async cleanup, so the throwaway wallet is removed here
+  process.once('exit', () => network.removeWalletLocations());
+
+  const recipients = ['alice', 'bob'].map((name) => network.createRecipient(name));
+  console.error('Regtest mode: deposits are paid at once and nothing leaves this process');
+  console.error(`  Mints: ${network.mintUrls.join(', ')}`);
+  console.error(`  Relays: ${network.relays.join(', ')}`);
+  for (const recipient of recipients) {
+    console.error(`  Recipient: ${recipient.address} (${recipient.npub})`);
+  }
+
+  return {
+    location: walletFile ? resolveWalletLocation({ walletFile }) : network.createWalletLocation(),
+    defaults: { relays: network.relays, mints: network.mintUrls, fiat: { rates: REGTEST_RATES } }
+  };
 }
 
 async function main(): Promise<void> {
   const args = process.argv.slice(2);
-  const { nsec, command, remainingArgs } = parseArgs(args);
+  const { nsec, bunker, walletFile, profile, regtest, json, help, command, remainingArgs } = parseArgs(args);
+
+  if (command === 'help' || (help && !command)) {
+    const topic = command === 'help' ? remainingArgs[0] : undefined;
+    console.log(topic && CLI_COMMANDS[topic] ? formatCommandHelp(topic) : formatUsage());
+    process.exit(0);
+  }
+  if (command && !CLI_COMMANDS[command]) {
+    console.error(`Unknown command: ${command}. Run with --help to list the commands.`);
+    process.exit(1);
+  }
+  if (command && help) {
+    console.log(formatCommandHelp(command));
+    process.exit(0);
+  }
+
+  // Keep stdout for the JSON result; the wallet's progress messages go to stderr
+  if (json) console.log = console.error;
+
+  let commandArgs: Record<string, any> = {};
+  if (command) {
+    try {
+      commandArgs = parseCommandArgs(CLI_COMMANDS[command], remainingArgs);
+    } catch (error) {
+      const result = errorToolResult(error);
+      if (!json) result.content.push({ type: 'text', text: `Usage: ${formatCommandUsage(command)}` });
+      exitWithResult(result, json);
+    }
+  }
+
+  if (command === 'list_profiles' || command === 'create_profile' || command === 'switch_profile') {
+    exitWithResult(await runProfileCommand(command, commandArgs, nsec, bunker).catch(errorToolResult), json);
+  }
+
+  let location: WalletLocation;
+  let defaults: WalletDefaults | undefined;
+  if (regtest) {
+    ({ location, defaults } = await startRegtest(walletFile));
+  } else {
+    location = resolveWalletLocation({ walletFile, profile });
+    if (location.legacy) {
+      console.error(`Using ${location.walletFile} from the current directory; pass --wallet-file or --profile to choose a wallet explicitly`);
+    }
+  }
 
   // If no command provided, run in MCP mode
   if (!command) {
-    await runMCPServer(nsec);
+    await runMCPServer(location, nsec, bunker, false, defaults);
     return;
   }
 
-  // CLI mode - existing functionality
-  const wallet = new MCPWallet();
-  await wallet.initialize(nsec);
+  if (command === 'serve') {
+    const { http: port, host = '127.0.0.1', nwc = false } = commandArgs;
+    if (port === undefined) {
+      await runMCPServer(location, nsec, bunker, nwc, defaults);
+      return;
+    }
+    if (port <= 0 || port > 65535) {
+      exitWithResult(errorToolResult(new WalletError('INVALID_ARGUMENT', `Invalid port: ${port}`)), json);
+    }
+    await runHttpServer(location, port, host, nsec, bunker, nwc, defaults);
+    return;
+  }
 
+  let result: ToolResult;
   try {
-    switch (command) {
-      case 'get_balance':
-        await wallet.getBalance();
-        break;
-        
-      case 'get_mint_balances':
-        await wallet.getMintBalances();
-        break;
-        
-      case 'deposit':
-        const amount = parseInt(remainingArgs[0]);
-        const mintUrl = remainingArgs[1];
-        if (!amount) {
-          console.error('Usage: deposit <amount> [mint_url]');
-          process.exit(1);
-        }
-        await wallet.deposit(amount, mintUrl);
-        break;
-        
-      case 'pay':
-        const bolt11 = remainingArgs[0];
-        if (!bolt11) {
-          console.error('Usage: pay <bolt11_invoice>');
-          process.exit(1);
-        }
-        await wallet.pay(bolt11);
-        break;
-        
-      case 'zap':
-        const recipient = remainingArgs[0];
-        const zapAmount = parseInt(remainingArgs[1]);
-        const comment = remainingArgs[2] || '';
-        if (!recipient || !zapAmount) {
-          console.error('Usage: zap <npub_or_nip05> <amount> [comment]');
-          process.exit(1);
-        }
-        await wallet.zap(recipient, zapAmount, comment);
-        break;
-
-      case 'add_mint':
-        const mintToAdd = remainingArgs[0];
-        if (!mintToAdd) {
-          console.error('Usage: add_mint <mint_url>');
-          process.exit(1);
-        }
-        await wallet.addMint(mintToAdd);
-        break;
-        
-      default:
-        console.log('Available commands:');
-        console.log('  get_balance - Get total wallet balance');
-        console.log('  get_mint_balances - Get balance breakdown per mint');
-        console.log('  deposit <amount> [mint_url] - Create deposit invoice (all mints tried concurrently if not specified)');
-        console.log('  pay <bolt11> - Pay a lightning invoice');
-        console.log('  zap <npub_or_nip05> <amount> [comment] - Send a zap');
-        console.log('  add_mint <mint_url> - Add a mint to the wallet');
-        console.log('');
-        console.log('Global options:');
-        console.log('  --nsec <nsec> - Use specific nsec key (overrides env var and config)');
-        console.log('');
-        console.log('Run without arguments to start MCP server mode');
+    if (command === 'encrypt_wallet' || command === 'change_passphrase') {
+      result = await runKeyCommand(command, location, nsec, bunker);
+    } else if (command === 'import_backup') {
+      result = await runImportBackup(commandArgs, location);
+    } else {
+      const wallet = new MCPWallet(location, defaults);
+      await wallet.initialize(nsec, bunker);
+      result = await runWalletCommand(wallet, command, commandArgs);
     }
-    
-    // Exit successfully after command execution
-    process.exit(0);
   } catch (error) {
-    console.error('Command failed:', error);
-    process.exit(1);
+    result = errorToolResult(error);
   }
+  exitWithResult(result, json);
 }
 
+export { MCPServer, MCPWallet, WalletDefaults };
+
 if (require.main === module) {
   main();
 }
\ No newline at end of file